@@ -1,9 +1,41 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { MqttService } from './services/mqttService.ts';
-import { getDemoState, getDemoLabel, DEMO_DURATION } from './services/demoService.ts';
-import { TeslaData, MqttConfig, HUDMode, ConnectionStatus } from './types.ts';
+import { DemoScenario, BUILTIN_SCENARIO, getDemoState, getDemoLabel, scenarioDuration, fetchScenarios } from './services/demoService.ts';
+import { TeslaData, MqttConfig, HUDMode, ConnectionStatus, CarInfo, INITIAL_DATA, INITIAL_CONNECTION_STATUS } from './types.ts';
 import { APP_CONFIG } from './config.ts';
+import { TpmsSettings, DEFAULT_TPMS_SETTINGS, TIRE_LABELS, evaluateTires, hasTpmsData, hasTpmsWarning } from './services/tpms.ts';
+import {
+  UnitSettings, defaultUnits, normalizeUnits, toSpeed, toDistance, toPressure, fromPressure, pressureDecimals,
+  formatPressure, formatTime, formatDateTime, speedLabel, distanceLabel, pressureLabel, MI_TO_KM,
+} from './services/units.ts';
+import { DEFAULT_STALE_SECONDS, fieldAge, isStale, isCarInactive, isCarOffline, formatAge } from './services/staleness.ts';
+import { AuthInfo, apiFetch, fetchAuthInfo, getAuthToken, setAuthToken, linkDevice } from './services/auth.ts';
+import { Recording, RECORDING_KIND_LABELS, REPLAY_SPEEDS, listRecordings, streamRecording } from './services/recordingService.ts';
+import TirePanel from './components/TirePanel.tsx';
+import ChargingView from './components/ChargingView.tsx';
+import DriveSummary from './components/DriveSummary.tsx';
+import DemoControls from './components/DemoControls.tsx';
+import HudWidget, { WidgetContext } from './components/HudWidget.tsx';
+import LayoutEditor from './components/LayoutEditor.tsx';
+import SpeedLimitEditor from './components/SpeedLimitEditor.tsx';
+import UnitSettingsEditor from './components/UnitSettingsEditor.tsx';
+import { ThemeSettings, DEFAULT_THEME_SETTINGS, THEME_MODES, MAX_DIMMING, resolveTheme, sunTimes } from './services/theme.ts';
+import { carPosition } from './services/geo.ts';
+import { TripComputer, CONSUMPTION_WINDOWS_KM, DEFAULT_SUMMARY_SECONDS, showTripSummary } from './services/tripComputer.ts';
+import { EtaTracker, formatEtaDelta } from './services/etaTrend.ts';
+import { AlertSettings, AlertRule, DEFAULT_ALERT_SETTINGS, ALERT_SEVERITIES, SEVERITY_STYLES, AlertEngine, alertFacts, fetchAlertRules, mergeAlertRules, upgradeAlertRule } from './services/alerts.ts';
+import { playChime, unlockAudio } from './services/chime.ts';
+import AlertRulesEditor from './components/AlertRulesEditor.tsx';
+import { SpeechSettings, DEFAULT_SPEECH_SETTINGS, SpeechAnnouncer, SpeechEventDetector } from './services/speech.ts';
+import SpeechSettingsEditor from './components/SpeechSettingsEditor.tsx';
+import { Language, LANGUAGES, getLanguageSetting, setLanguage, getLanguage, detectLanguage, localize, t } from './services/i18n.ts';
+import { SyncedSettings, ControlMessage, validSettings, getDeviceId, getDeviceName, takeNewSettings, saveDeviceSettings, saveDefaultSettings } from './services/settingsSync.ts';
+import { ArrivalSettings, DEFAULT_ARRIVAL_SETTINGS, ARRIVAL_COLORS, isDriving, forecastArrivalSoc, arrivalLevel } from './services/arrival.ts';
+import { CalibrationProfile, IDENTITY_CALIBRATION, DEFAULT_PROFILE_NAME, isIdentity, calibrationTransform } from './services/calibration.ts';
+import CalibrationOverlay, { CalibrationGrid } from './components/CalibrationOverlay.tsx';
+import { SpeedLimitSettings, DEFAULT_SPEED_LIMIT_SETTINGS, activeSpeedLimit, isOverspeed } from './services/speedLimits.ts';
+import { HudLayout, LayoutPreset, INFO_SLOTS, normalizeLayout, layoutShowsPower } from './services/layout.ts';
 import {
   Settings,
   Maximize2,
@@ -14,43 +46,31 @@ import {
   Clock,
   Navigation,
   Terminal,
-  Play
+  Play,
+  BatteryMedium,
+  TrafficCone,
+  TrendingUp,
+  TrendingDown,
+  AlertTriangle
 } from 'lucide-react';
 
-const INITIAL_DATA: TeslaData = {
-  speed: 0,
-  batteryLevel: 0,
-  power: 0,
-  gear: 'P',
-  range: 0,
-  outsideTemp: 0,
-  insideTemp: 0,
-  odometer: 0,
-  state: 'asleep',
-  isLocked: true,
-  isCharging: false,
-  heading: 0,
-  tpms_front_left: 0,
-  tpms_front_right: 0,
-  tpms_rear_left: 0,
-  tpms_rear_right: 0,
-  destination: '',
-  estArrivalTime: '',
-  timeToArrival: 0,
-  activeRoute: null as any,
-  elevation: 0,
-  geofence: '',
-  chargerPower: 0,
-  timeToFullCharge: 0,
-  chargeLimitSoc: 0
-};
-
 export default function App() {
   const [config, setConfig] = useState<MqttConfig>(() => {
     const saved = localStorage.getItem('mqtt_config');
     return saved ? JSON.parse(saved) : APP_CONFIG.mqtt;
   });
 
+  const [carId, setCarId] = useState<number>(() => {
+    const saved = localStorage.getItem('hud_car_id');
+    return saved ? parseInt(saved) : config.carId;
+  });
+  const [cars, setCars] = useState<CarInfo[]>([]);
+  const [authToken, setAuthTokenState] = useState<string>(getAuthToken);
+  const [authInfo, setAuthInfo] = useState<AuthInfo | null>(null);
+  const [pairingInput, setPairingInput] = useState('');
+  const [pairingError, setPairingError] = useState('');
+  const [syncStatus, setSyncStatus] = useState('');
+
   const [data, setData] = useState<TeslaData>(INITIAL_DATA);
   const [hudMode, setHudMode] = useState<HUDMode>(() => {
     return (localStorage.getItem('hud_mode') as HUDMode) || HUDMode.MIRROR;
@@ -59,19 +79,106 @@ export default function App() {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isMqttConnected, setIsMqttConnected] = useState(false);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
-  const [units, setUnits] = useState<'KM' | 'MI'>(() => {
-    return (localStorage.getItem('hud_units') as 'KM' | 'MI') || 'KM';
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(INITIAL_CONNECTION_STATUS);
+  const linkUpSinceRef = useRef(0);   // when the proxy link last became connected
+  // Older versions stored a plain 'KM' / 'MI' here and kept the pressure unit with the TPMS settings
+  const [units, setUnits] = useState<UnitSettings>(() => {
+    const saved = localStorage.getItem('hud_units');
+    const legacyPressure = JSON.parse(localStorage.getItem('hud_tpms') || '{}').unit;
+    const fallback = normalizeUnits({ pressure: legacyPressure }, defaultUnits());
+    return normalizeUnits(saved && saved.startsWith('{') ? JSON.parse(saved) : saved, fallback);
+  });
+
+  const [tpmsSettings, setTpmsSettings] = useState<TpmsSettings>(() => {
+    const saved = localStorage.getItem('hud_tpms');
+    return saved ? { ...DEFAULT_TPMS_SETTINGS, ...JSON.parse(saved) } : DEFAULT_TPMS_SETTINGS;
+  });
+
+  const [speedLimits, setSpeedLimits] = useState<SpeedLimitSettings>(() => {
+    const saved = localStorage.getItem('hud_speed_limits');
+    return saved ? { ...DEFAULT_SPEED_LIMIT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SPEED_LIMIT_SETTINGS;
+  });
+  const [overspeed, setOverspeed] = useState(false);
+
+  const [themeSettings, setThemeSettings] = useState<ThemeSettings>(() => {
+    const saved = localStorage.getItem('hud_theme');
+    return saved ? { ...DEFAULT_THEME_SETTINGS, ...JSON.parse(saved) } : DEFAULT_THEME_SETTINGS;
+  });
+
+  // Calibration profiles live on this device only: each phone/windshield combination differs
+  const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfile[]>(() => {
+    const saved = localStorage.getItem('hud_calibration_profiles');
+    return saved ? JSON.parse(saved) : [{ name: DEFAULT_PROFILE_NAME, calibration: IDENTITY_CALIBRATION }];
+  });
+  const [calibrationProfile, setCalibrationProfile] = useState<string>(() => {
+    return localStorage.getItem('hud_calibration_profile') || DEFAULT_PROFILE_NAME;
+  });
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  const [arrivalSettings, setArrivalSettings] = useState<ArrivalSettings>(() => {
+    const saved = localStorage.getItem('hud_arrival');
+    return saved ? { ...DEFAULT_ARRIVAL_SETTINGS, ...JSON.parse(saved) } : DEFAULT_ARRIVAL_SETTINGS;
+  });
+  const tripComputerRef = useRef(new TripComputer());
+  const etaTrackerRef = useRef(new EtaTracker());
+
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(() => {
+    const saved = localStorage.getItem('hud_alerts');
+    if (!saved) return DEFAULT_ALERT_SETTINGS;
+    const settings: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, ...JSON.parse(saved) };
+    return { ...settings, rules: settings.rules.map(upgradeAlertRule) };
+  });
+  const [proxyAlertRules, setProxyAlertRules] = useState<AlertRule[]>([]);
+  const alertEngineRef = useRef(new AlertEngine());
+
+  // Voices differ per device, so speech settings stay local like the calibration
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(() => {
+    const saved = localStorage.getItem('hud_speech');
+    return saved ? { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SPEECH_SETTINGS;
+  });
+  // The language is the driver's choice, so it stays local too ('' follows the browser)
+  const [language, setLanguageSetting] = useState<Language | ''>(getLanguageSetting);
+  const speechAnnouncerRef = useRef(new SpeechAnnouncer());
+  const speechDetectorRef = useRef(new SpeechEventDetector());
+  const [summarySeconds, setSummarySeconds] = useState<number>(() => {
+    const saved = parseInt(localStorage.getItem('hud_summary_seconds') || '');
+    return isNaN(saved) ? DEFAULT_SUMMARY_SECONDS : saved;
+  });
+
+  const [layout, setLayout] = useState<HudLayout>(() => {
+    const saved = localStorage.getItem('hud_layout');
+    return normalizeLayout(saved ? JSON.parse(saved) : null);
+  });
+  const [layoutPresets, setLayoutPresets] = useState<LayoutPreset[]>(() => {
+    return JSON.parse(localStorage.getItem('hud_layout_presets') || '[]');
   });
 
+  const [staleSeconds, setStaleSeconds] = useState<number>(() => {
+    return parseInt(localStorage.getItem('hud_stale_seconds') || '') || DEFAULT_STALE_SECONDS;
+  });
+  const [now, setNow] = useState(() => Date.now());
+
   // Demo state
   const [isDemo, setIsDemo] = useState(false);
   const [demoElapsed, setDemoElapsed] = useState(0);
-  const [demoData, setDemoData] = useState<Partial<TeslaData>>({});
-  const demoIntervalRef = useRef<any>(null);
+  const [demoPlaying, setDemoPlaying] = useState(true);
+  const [demoSpeed, setDemoSpeed] = useState(1);
+  const [demoLoop, setDemoLoop] = useState(false);
+  const [scenarios, setScenarios] = useState<DemoScenario[]>([BUILTIN_SCENARIO]);
+  const [scenario, setScenario] = useState<DemoScenario>(BUILTIN_SCENARIO);
+  const demoDuration = scenarioDuration(scenario);
+
+  // Replay of a trip recorded by the proxy
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [replay, setReplay] = useState<Recording | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayData, setReplayData] = useState<Partial<TeslaData>>({});
 
   const lastTapRef = useRef<number>(0);
   const mqttServiceRef = useRef<MqttService | null>(null);
+  const carIdRef = useRef<number>(carId);
+  carIdRef.current = carId;
   const wakeLockRef = useRef<any>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
 
@@ -86,6 +193,18 @@ export default function App() {
     }
   }, [debugLogs, showSettings]);
 
+  // Calibration transforms are in pixels, so they follow the viewport size
+  useEffect(() => {
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Lets the browser hyphenate and pick fonts for the shown language
+  useEffect(() => {
+    document.documentElement.lang = getLanguage();
+  }, [language]);
+
   // Sync fullscreen state
   useEffect(() => {
     const handleFsChange = () => {
@@ -112,14 +231,21 @@ export default function App() {
     lastTapRef.current = now;
   }, [toggleFullscreen]);
 
-  // Fetch Server Config on Mount - Priority over LocalStorage
+  // Fetch Server Config on Mount (and after pairing) - Priority over LocalStorage
   useEffect(() => {
     const fetchConfig = async () => {
+      const info = await fetchAuthInfo();
+      setAuthInfo(info);
+      if (info?.required && !info.authenticated) {
+        addDebugLog(t('log.pairingRequired'));
+        return;
+      }
+
       try {
-        const res = await fetch('/api/config');
+        const res = await apiFetch('/api/config');
         if (res.ok) {
           const serverConfig = await res.json();
-          addDebugLog(`System: Fetched server environment (Prefix: ${serverConfig.topicPrefix}, Car: ${serverConfig.carId})`);
+          addDebugLog(t('log.serverConfig', { prefix: serverConfig.topicPrefix, carId: serverConfig.carId }));
 
           setConfig(prev => {
             const merged = { ...prev, ...serverConfig };
@@ -127,68 +253,190 @@ export default function App() {
             localStorage.setItem('mqtt_config', JSON.stringify(merged));
             return merged;
           });
+          // The server's car is only a default - an explicit pick on this device wins
+          if (!localStorage.getItem('hud_car_id')) setCarId(serverConfig.carId);
         }
       } catch (err) {
-        addDebugLog(`System: Could not fetch server config, using local defaults.`);
+        addDebugLog(t('log.serverConfigFailed'));
       }
     };
     fetchConfig();
-  }, [addDebugLog]);
+  }, [addDebugLog, authToken]);
+
+  // Refresh the list of selectable cars whenever Settings is opened
+  useEffect(() => {
+    if (!showSettings) return;
+    apiFetch('/api/cars')
+      .then(res => res.ok ? res.json() : [])
+      .then((list: CarInfo[]) => setCars(list))
+      .catch(() => addDebugLog(t('log.carsFailed')));
+    listRecordings()
+      .then(setRecordings)
+      .catch(() => setRecordings([]));
+    fetchScenarios(addDebugLog)
+      .then(list => setScenarios([BUILTIN_SCENARIO, ...list]))
+      .catch(() => setScenarios([BUILTIN_SCENARIO]));
+  }, [showSettings, addDebugLog]);
+
+  // Alert rules served by the proxy, refreshed with Settings so edits show up without a reload
+  useEffect(() => {
+    fetchAlertRules(addDebugLog)
+      .then(setProxyAlertRules)
+      .catch(() => setProxyAlertRules([]));
+  }, [showSettings, authToken, addDebugLog]);
+
+  useEffect(() => {
+    speechAnnouncerRef.current.configure(speechSettings);
+  }, [speechSettings]);
+
+  // Browsers only allow sound after a user gesture; the first tap anywhere unlocks the chime
+  useEffect(() => {
+    window.addEventListener('pointerdown', unlockAudio, { once: true });
+    return () => window.removeEventListener('pointerdown', unlockAudio);
+  }, []);
 
   const updateData = useCallback((updates: Partial<TeslaData>) => {
     setData(prev => ({ ...prev, ...updates }));
     setIsMqttConnected(true);
   }, []);
 
-  // Demo Clock
+  // Demo Clock: advances the playhead while playing, scaled by the playback speed
   useEffect(() => {
-    if (!isDemo) {
-      if (demoIntervalRef.current) clearInterval(demoIntervalRef.current);
-      setDemoElapsed(0);
-      setDemoData({});
-      return;
-    }
+    if (!isDemo || !demoPlaying) return;
     const TICK = 100; // ms
-    let elapsed = 0;
-    demoIntervalRef.current = setInterval(() => {
-      elapsed += TICK / 1000;
-      setDemoElapsed(elapsed);
-      const state = getDemoState(elapsed);
-      // Auto-calculate arrival time in demo if duration is set in activeRoute
-      const mins = state.activeRoute?.minutes_to_arrival ?? state.timeToArrival;
-      if (mins && !state.estArrivalTime) {
-        const minsNum = Number(mins);
-        state.timeToArrival = minsNum;
-        state.estArrivalTime = new Date(Date.now() + minsNum * 60000).toISOString();
-      }
-      setDemoData(state);
-      if (elapsed >= DEMO_DURATION) {
-        clearInterval(demoIntervalRef.current);
-        setIsDemo(false);
-      }
+    const interval = setInterval(() => {
+      setDemoElapsed(prev => Math.min(prev + (TICK / 1000) * demoSpeed, demoDuration));
     }, TICK);
-    setDemoData(getDemoState(0));
-    return () => clearInterval(demoIntervalRef.current);
-  }, [isDemo]);
+    return () => clearInterval(interval);
+  }, [isDemo, demoPlaying, demoSpeed, demoDuration]);
+
+  // End of the scenario: start over when looping, otherwise leave demo mode
+  useEffect(() => {
+    if (!isDemo || !demoPlaying || demoElapsed < demoDuration) return;
+    if (demoLoop) setDemoElapsed(0);
+    else setIsDemo(false);
+  }, [isDemo, demoPlaying, demoElapsed, demoDuration, demoLoop]);
+
+  const demoData = useMemo<Partial<TeslaData>>(() => {
+    if (!isDemo) return {};
+    const state = getDemoState(demoElapsed, scenario.keyframes);
+    // Auto-calculate arrival time in demo if duration is set in activeRoute
+    const mins = state.activeRoute?.minutes_to_arrival ?? state.timeToArrival;
+    if (mins && !state.estArrivalTime) {
+      const minsNum = Number(mins);
+      state.timeToArrival = minsNum;
+      state.estArrivalTime = new Date(Date.now() + minsNum * 60000).toISOString();
+    }
+    return state;
+  }, [isDemo, demoElapsed, scenario]);
+
+  // Replay: recorded messages run through their own MqttService, i.e. the live parsing path
+  useEffect(() => {
+    if (!replay) {
+      setReplayData({});
+      return;
+    }
+    const service = new MqttService(
+      updates => setReplayData(prev => ({ ...prev, ...updates })),
+      addDebugLog
+    );
+    service.attach({ ...config, carId: replay.carId });
+
+    const controller = new AbortController();
+    addDebugLog(t('log.replayStarted', { id: replay.id, speed: replaySpeed }));
+    streamRecording(replay.id, replaySpeed, messages => service.ingest(messages), controller.signal)
+      .then(() => {
+        if (!controller.signal.aborted) {
+          addDebugLog(t('log.replayFinished', { id: replay.id }));
+          setReplay(null);
+        }
+      })
+      .catch(err => {
+        addDebugLog(t('log.replayFailed', { error: err.message }));
+        setReplay(null);
+      });
+
+    return () => controller.abort();
+  }, [replay, replaySpeed, config, addDebugLog]);
 
   const startDemo = () => {
     setShowSettings(false);
+    setReplay(null);
+    setDemoElapsed(0);
+    setDemoPlaying(true);
     setIsDemo(true);
   };
   const stopDemo = () => setIsDemo(false);
 
-  // The displayed data is overridden by demo data if isDemo
+  const startReplay = (recording: Recording) => {
+    setShowSettings(false);
+    setIsDemo(false);
+    setReplay(recording);
+  };
+
+  // The displayed data is overridden by demo data if isDemo, or by the replayed trip
   const displayData: TeslaData = isDemo
     ? { ...INITIAL_DATA, ...data, ...demoData } as TeslaData
-    : data;
+    : replay
+      ? { ...INITIAL_DATA, ...replayData } as TeslaData
+      : data;
+
+  // Settings and commands pushed by the proxy; read through a ref so the socket needn't reconnect
+  const controlHandlerRef = useRef<(msg: ControlMessage) => void>(() => { });
 
   useEffect(() => {
-    const service = new MqttService(updateData, addDebugLog, setConnectionStatus);
+    const service = new MqttService(updateData, addDebugLog, setConnectionStatus, msg => controlHandlerRef.current(msg));
     mqttServiceRef.current = service;
-    service.connect(config);
+    service.connect({ ...config, carId: carIdRef.current });
 
     return () => service.disconnect();
-  }, [config, updateData, addDebugLog]);
+  }, [config, authToken, updateData, addDebugLog]);
+
+  useEffect(() => {
+    if (connectionStatus.state === 'connected') linkUpSinceRef.current = Date.now();
+  }, [connectionStatus.state]);
+
+  // Live car switch: drop the previous car's values and trip, the service replays its cache for the new one
+  useEffect(() => {
+    setData(INITIAL_DATA);
+    tripComputerRef.current.reset();
+    etaTrackerRef.current.reset();
+    alertEngineRef.current.reset();
+    speechDetectorRef.current.reset();
+    speechAnnouncerRef.current.cancel();
+    mqttServiceRef.current?.selectCar(carId);
+  }, [carId]);
+
+  const handleLinkDevice = async () => {
+    setPairingError('');
+    try {
+      if (await linkDevice(pairingInput, getDeviceName())) {
+        setPairingInput('');
+        setAuthTokenState(getAuthToken());
+        addDebugLog(t('log.deviceLinked'));
+      } else {
+        setPairingError(t('device.rejected'));
+      }
+    } catch {
+      setPairingError(t('device.unreachable'));
+    }
+  };
+
+  const forgetDevice = () => {
+    setAuthToken('');
+    setAuthTokenState('');
+  };
+
+  const selectCar = (id: number) => {
+    setCarId(id);
+    localStorage.setItem('hud_car_id', String(id));
+  };
+
+  // Re-evaluate data ages and the retry countdown even when no new messages arrive
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Wake Lock
   useEffect(() => {
@@ -197,7 +445,7 @@ export default function App() {
         try {
           wakeLockRef.current = await (navigator as any).wakeLock.request('screen');
         } catch (err) {
-          addDebugLog(`Wake Lock: Failed`);
+          addDebugLog(t('log.wakeLockFailed'));
         }
       }
     };
@@ -231,23 +479,284 @@ export default function App() {
 
 
 
-  const convertValue = (val: number) => {
-    return units === 'MI' ? val * 0.621371 : val;
+  const updateUnits = (changes: Partial<UnitSettings>) => {
+    setUnits(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_units', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateStaleSeconds = (seconds: number) => {
+    setStaleSeconds(seconds);
+    localStorage.setItem('hud_stale_seconds', String(seconds));
+  };
+
+  const updateSummarySeconds = (seconds: number) => {
+    setSummarySeconds(seconds);
+    localStorage.setItem('hud_summary_seconds', String(seconds));
+  };
+
+  const updateAlertSettings = (changes: Partial<AlertSettings>) => {
+    setAlertSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_alerts', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Strings are looked up while rendering, so the state change alone re-renders them
+  const updateLanguage = (next: Language | '') => {
+    setLanguage(next);
+    setLanguageSetting(next);
+  };
+
+  const updateSpeechSettings = (changes: Partial<SpeechSettings>) => {
+    setSpeechSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_speech', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateTpmsSettings = (changes: Partial<TpmsSettings>) => {
+    setTpmsSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_tpms', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateSpeedLimits = (changes: Partial<SpeedLimitSettings>) => {
+    setSpeedLimits(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_speed_limits', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateThemeSettings = (changes: Partial<ThemeSettings>) => {
+    setThemeSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_theme', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const calibration = calibrationProfiles.find(profile => profile.name === calibrationProfile)?.calibration ?? IDENTITY_CALIBRATION;
+
+  const persistCalibrationProfiles = (next: CalibrationProfile[]) => {
+    setCalibrationProfiles(next);
+    localStorage.setItem('hud_calibration_profiles', JSON.stringify(next));
+  };
+
+  const selectCalibrationProfile = (name: string) => {
+    setCalibrationProfile(name);
+    localStorage.setItem('hud_calibration_profile', name);
+  };
+
+  const updateCalibration = (next: CalibrationProfile['calibration']) => {
+    const exists = calibrationProfiles.some(profile => profile.name === calibrationProfile);
+    persistCalibrationProfiles(exists
+      ? calibrationProfiles.map(profile => profile.name === calibrationProfile ? { ...profile, calibration: next } : profile)
+      : [...calibrationProfiles, { name: calibrationProfile, calibration: next }]);
+  };
+
+  // Saving under a new name copies the current calibration; an existing name is overwritten
+  const saveCalibrationProfile = (name: string) => {
+    persistCalibrationProfiles([...calibrationProfiles.filter(profile => profile.name !== name), { name, calibration }]);
+    selectCalibrationProfile(name);
+  };
+
+  const deleteCalibrationProfile = (name: string) => {
+    persistCalibrationProfiles(calibrationProfiles.filter(profile => profile.name !== name));
+    if (name === calibrationProfile) selectCalibrationProfile(DEFAULT_PROFILE_NAME);
+  };
+
+  const updateArrivalSettings = (changes: Partial<ArrivalSettings>) => {
+    setArrivalSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('hud_arrival', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateLayout = (next: HudLayout) => {
+    setLayout(next);
+    localStorage.setItem('hud_layout', JSON.stringify(next));
+  };
+
+  // A preset saved under an existing name replaces it
+  const saveLayoutPreset = (name: string) => {
+    setLayoutPresets(prev => {
+      const next = [...prev.filter(preset => preset.name !== name), { name, layout }];
+      localStorage.setItem('hud_layout_presets', JSON.stringify(next));
+      return next;
+    });
   };
 
-  const speedUnit = units === 'KM' ? 'km/h' : 'mph';
-  const distUnit = units === 'KM' ? 'KM' : 'MI';
+  const deleteLayoutPreset = (name: string) => {
+    setLayoutPresets(prev => {
+      const next = prev.filter(preset => preset.name !== name);
+      localStorage.setItem('hud_layout_presets', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // What this HUD would upload as its own settings or as everyone's defaults
+  const syncedSettings: SyncedSettings = {
+    mode: hudMode,
+    units,
+    carId,
+    theme: themeSettings,
+    layout,
+    tpms: tpmsSettings,
+    speedLimits,
+    arrival: arrivalSettings,
+    staleSeconds,
+    summarySeconds,
+    alerts: alertSettings,
+    speech: speechSettings,
+    language,
+  };
 
-  const formatTime = (isoString: string) => {
-    if (!isoString) return '';
+  const applySyncedSettings = (settings: SyncedSettings) => {
+    if (settings.mode && Object.values(HUDMode).includes(settings.mode)) {
+      setHudMode(settings.mode);
+      localStorage.setItem('hud_mode', settings.mode);
+    }
+    if (settings.units) updateUnits(normalizeUnits(settings.units, units));
+    if (typeof settings.carId === 'number') selectCar(settings.carId);
+    if (settings.theme) updateThemeSettings(settings.theme);
+    if (settings.layout) updateLayout(normalizeLayout(settings.layout));
+    if (settings.tpms) updateTpmsSettings(settings.tpms);
+    if (settings.speedLimits) updateSpeedLimits(settings.speedLimits);
+    if (settings.arrival) updateArrivalSettings(settings.arrival);
+    if (typeof settings.staleSeconds === 'number') updateStaleSeconds(settings.staleSeconds);
+    if (typeof settings.summarySeconds === 'number') updateSummarySeconds(settings.summarySeconds);
+    if (settings.alerts) updateAlertSettings(settings.alerts);
+    if (settings.speech) updateSpeechSettings(settings.speech);
+    if (settings.language !== undefined) updateLanguage(settings.language);
+  };
+
+  controlHandlerRef.current = (msg: ControlMessage) => {
+    if (msg.type === 'settings') {
+      if (!takeNewSettings(msg.settings)) return;
+      addDebugLog(t('log.settingsApplied'));
+      applySyncedSettings(validSettings(msg.settings, key => addDebugLog(t('log.settingRejected', { key }))));
+      return;
+    }
+    addDebugLog(t('log.remoteCommand', { command: msg.command }));
+    if (msg.command === 'startDemo') startDemo();
+    if (msg.command === 'stopDemo') stopDemo();
+    if (msg.command === 'openSettings') setShowSettings(true);
+    if (msg.command === 'closeSettings') setShowSettings(false);
+  };
+
+  const uploadSettings = async (target: 'device' | 'defaults') => {
+    setSyncStatus('');
     try {
-      const date = new Date(isoString);
-      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    } catch (e) {
-      return '';
+      if (target === 'device') await saveDeviceSettings(getDeviceId(), syncedSettings);
+      else await saveDefaultSettings(syncedSettings);
+      setSyncStatus(t(target === 'device' ? 'proxy.savedDevice' : 'proxy.savedDefaults'));
+    } catch {
+      setSyncStatus(t('proxy.saveFailed'));
     }
   };
 
+  // Demo data is synthetic and always fresh
+  const speedStale = !isDemo && isStale(displayData, ['speed'], staleSeconds, now);
+  const powerStale = !isDemo && isStale(displayData, ['power'], staleSeconds, now);
+  const etaStale = !isDemo && isStale(displayData, ['activeRoute', 'timeToArrival', 'estArrivalTime'], staleSeconds, now);
+  const carInactive = !isDemo && isCarInactive(displayData);
+
+  // Overspeed keeps its previous value as input so the hysteresis band applies
+  const speedLimit = activeSpeedLimit(speedLimits, displayData.geofence);
+  useEffect(() => {
+    setOverspeed(prev => isOverspeed(displayData.speed, speedLimit, speedLimits, prev));
+  }, [displayData.speed, speedLimit, speedLimits]);
+
+  // Two arrival estimates: the car's own (energy_at_arrival) and one from our recent Wh/km
+  const { navArrivalSoc, estimatedArrivalSoc, lowestArrivalSoc, arrivalWarning } = useMemo(() => {
+    const nav = displayData.activeRoute ? displayData.activeRoute.energy_at_arrival ?? null : null;
+    const estimated = forecastArrivalSoc(displayData, tripComputerRef.current.whPerKm(5), arrivalSettings);
+    const lowest = Math.min(...[nav, estimated].filter((soc): soc is number => soc !== null));
+    return {
+      navArrivalSoc: nav,
+      estimatedArrivalSoc: estimated,
+      lowestArrivalSoc: lowest,
+      arrivalWarning: isDriving(displayData) && !etaStale && lowest < arrivalSettings.reservePercent,
+    };
+  }, [displayData, arrivalSettings, etaStale, now]);
+
+  // Trip computer, integrated once per clock tick
+  useEffect(() => {
+    tripComputerRef.current.update(displayData, now);
+    etaTrackerRef.current.update(displayData.estArrivalTime, displayData.destination, now);
+
+    const facts = alertFacts(displayData, {
+      // The car, not this HUD's link: a reconnect or proxy restart doesn't count
+      offline: !isDemo && !replay && connectionStatus.state === 'connected' && isCarOffline(displayData, staleSeconds, linkUpSinceRef.current, now),
+      synthetic: isDemo,
+    });
+    const fired = alertEngineRef.current.evaluate(mergeAlertRules(alertSettings.rules, proxyAlertRules), facts, now, units);
+    fired.forEach(alert => addDebugLog(t('log.alert', { name: localize(alert.rule.name), message: alert.message })));
+    const loudest = fired
+      .filter(alert => alert.rule.chime)
+      .sort((a, b) => ALERT_SEVERITIES.indexOf(b.rule.severity) - ALERT_SEVERITIES.indexOf(a.rule.severity))[0];
+    if (loudest) playChime(loudest.rule.severity, alertSettings.chimeVolume);
+
+    const etaShiftNow = etaTrackerRef.current.shift(now);
+    const announcements = speechDetectorRef.current.update({
+      destination: displayData.destination,
+      arrivalTime: formatTime(displayData.estArrivalTime, units),
+      etaShiftAt: etaShiftNow?.at ?? null,
+      etaShiftMinutes: etaShiftNow?.minutes ?? 0,
+      arrivalLowSoc: arrivalWarning ? lowestArrivalSoc : null,
+      isCharging: displayData.isCharging,
+      batteryLevel: displayData.batteryLevel,
+      chargeLimitSoc: displayData.chargeLimitSoc,
+    }, speechSettings.events);
+    if (speechSettings.events.alerts) {
+      fired.forEach(alert => announcements.push({ key: `alert-${alert.rule.id}`, text: alert.message.replace(/ · /g, ', ') }));
+    }
+    announcements.forEach(announcement => speechAnnouncerRef.current.announce(announcement, now));
+  }, [now, arrivalWarning, lowestArrivalSoc]);
+
+  // Demo and replay data must not mix with the live car's trip
+  useEffect(() => {
+    tripComputerRef.current.reset();
+    etaTrackerRef.current.reset();
+    alertEngineRef.current.reset();
+    speechDetectorRef.current.reset();
+    speechAnnouncerRef.current.cancel();
+  }, [isDemo, replay]);
+
+  const trip = tripComputerRef.current.stats();
+  const recentConsumption = CONSUMPTION_WINDOWS_KM.map(km => tripComputerRef.current.whPerKm(km));
+  const showSummary = showTripSummary(trip, summarySeconds, now);
+  const alertBanners = alertEngineRef.current.banners(now);
+  const etaShift = etaTrackerRef.current.shift(now);
+  const etaTrend = etaTrackerRef.current.trend();
+  const trafficDelay = Math.round(displayData.activeRoute?.traffic_minutes_delay ?? 0);
+
+  const tires = evaluateTires(displayData, tpmsSettings);
+  const flaggedTires = tires.filter(tire => tire.low || tire.deviating);
+
+  const position = carPosition(displayData);
+  const theme = resolveTheme(themeSettings, new Date(now), position);
+  const sun = position ? sunTimes(new Date(now), position) : null;
+
+  const widgetContext: WidgetContext = {
+    data: displayData, units, powerStale, trip, recentConsumption,
+    alertingFacts: alertEngineRef.current.alertingFacts(),
+  };
+  const infoWidgets = INFO_SLOTS.filter(slot => layout[slot] !== 'none');
+
+  const speedUnit = speedLabel(units);
+  const distUnit = distanceLabel(units).toUpperCase();
+  const routeDistance = (miles: number) => Math.round(toDistance(miles * MI_TO_KM, units));
+
   return (
     <div
       className="fixed inset-0 h-[100dvh] w-[100dvw] bg-black flex flex-col items-center justify-center overflow-hidden cursor-none select-none"
@@ -259,163 +768,325 @@ export default function App() {
       <div className="absolute top-6 right-6 z-40 pointer-events-none flex items-center gap-4 bg-black/20 backdrop-blur-md px-4 py-2 rounded-full border border-white/5">
         {isDemo && (
           <span className="text-indigo-400 font-bold uppercase tracking-[0.2em] text-[10px] md:text-xs">
-            DEMO: {getDemoLabel(demoElapsed)} - {Math.ceil(DEMO_DURATION - demoElapsed)}s
+            {t('status.demo', {
+              scene: getDemoLabel(demoElapsed, scenario.keyframes),
+              remaining: demoPlaying ? `${Math.ceil((demoDuration - demoElapsed) / demoSpeed)}s` : t('status.paused'),
+            })}
+          </span>
+        )}
+        {replay && (
+          <span className="text-indigo-400 font-bold uppercase tracking-[0.2em] text-[10px] md:text-xs">
+            {t('status.replay', { kind: t(RECORDING_KIND_LABELS[replay.kind]), time: formatDateTime(replay.startedAt, units), speed: replaySpeed })}
           </span>
         )}
         {!isMqttConnected && !showSettings && !isDemo && (
           <div className="flex items-center gap-3">
             <RefreshCw className="animate-spin text-yellow-500 w-4 h-4" />
-            <span className="text-yellow-500 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">Searching for Vehicle...</span>
+            <span className="text-yellow-500 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">{t('status.searching')}</span>
           </div>
         )}
-        <div className={`w-3 h-3 rounded-full transition-colors duration-500 ${connectionStatus === 'connected' ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.8)]' :
-          (!isMqttConnected || connectionStatus === 'connecting') ? 'bg-yellow-500 shadow-[0_0_15px_rgba(234,179,8,0.8)] animate-pulse' :
+        {carInactive && (
+          <span className="text-gray-400 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">
+            {t(displayData.state === 'asleep' ? 'status.carAsleep' : 'status.carOffline', { age: formatAge(fieldAge(displayData, 'state', now)) })}
+          </span>
+        )}
+        {authInfo?.required && !authInfo.authenticated && (
+          <span className="text-red-400 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">{t('status.pairingRequired')}</span>
+        )}
+        {!isDemo && connectionStatus.state === 'stale' && (
+          <span className="text-orange-500 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">{t('status.linkStale')}</span>
+        )}
+        {!isDemo && connectionStatus.retryAt && (
+          <span className="text-red-400 font-black uppercase tracking-[0.2em] text-[10px] md:text-xs">
+            {t('status.reconnecting', { seconds: Math.max(0, Math.ceil((connectionStatus.retryAt - now) / 1000)) })}
+          </span>
+        )}
+        <div className={`w-3 h-3 rounded-full transition-colors duration-500 ${connectionStatus.state === 'connected' ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.8)]' :
+          connectionStatus.state === 'stale' ? 'bg-orange-500 shadow-[0_0_15px_rgba(249,115,22,0.8)] animate-pulse' :
+          (!isMqttConnected || connectionStatus.state === 'connecting') ? 'bg-yellow-500 shadow-[0_0_15px_rgba(234,179,8,0.8)] animate-pulse' :
             'bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.8)]'
           }`} />
       </div>
 
-      {/* HUD Content */}
-      <div className={`w-full h-full flex flex-col justify-between p-4 md:p-12 transition-transform duration-300 ${hudMode === HUDMode.MIRROR ? 'hud-mirror' :
-        hudMode === HUDMode.FLIPPED ? 'hud-mirror-flipped' : ''
-        }`}>
-
+      {/* Windshield calibration: keystone, scale, rotation and offset in screen space, around the mirrored content */}
+      <div className="absolute inset-0" style={isIdentity(calibration) ? undefined : { transform: calibrationTransform(calibration, viewport.width, viewport.height), transformOrigin: '0 0' }}>
+        {isCalibrating && <CalibrationGrid />}
 
+        {/* HUD Content */}
+        <div
+          className={`w-full h-full flex flex-col justify-between p-4 md:p-12 transition-all duration-300 hud-theme-${theme} ${carInactive ? 'opacity-40' : ''} ${hudMode === HUDMode.MIRROR ? 'hud-mirror' :
+            hudMode === HUDMode.FLIPPED ? 'hud-mirror-flipped' : ''
+            }`}
+          style={themeSettings.dimming > 0 ? { filter: `brightness(${1 - themeSettings.dimming / 100})` } : undefined}
+        >
 
-        {/* Mid: Speed */}
-        <div className="relative flex flex-col items-center justify-center flex-1">
-          <div className="flex flex-col md:grid md:grid-cols-3 items-center w-full relative">
-
-            {/* Left Stat (Range) - Only on MD+ */}
-            <div className="hidden md:flex justify-start pl-4 lg:pl-12">
-              <div className="flex flex-col items-center justify-center w-48 text-center shrink-0">
-                <span className={`text-6xl lg:text-8xl font-black transition-colors duration-500 ${displayData.range <= 25 ? 'text-red-500 drop-shadow-[0_0_20px_rgba(239,68,68,0.8)]' : 'text-gray-200 drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]'}`}>
-                  {Math.round(convertValue(displayData.range))}
-                </span>
-                <span className="text-xl lg:text-2xl font-bold text-cyan-300 uppercase tracking-widest">{distUnit}</span>
-              </div>
+          {/* Top: Alerts, tire pressure and arrival battery warnings (inside the mirrored content, so they flip with it) */}
+          {(alertBanners.length > 0 || hasTpmsWarning(tires) || arrivalWarning) && (
+            <div className="absolute top-6 left-0 right-0 flex flex-col items-center gap-2 z-30 pointer-events-none">
+              {alertBanners.map(alert => (
+                <div key={alert.rule.id} className={`flex items-center gap-3 border px-6 py-2 rounded-full font-black uppercase tracking-[0.2em] text-sm md:text-xl ${SEVERITY_STYLES[alert.rule.severity]}`}>
+                  <AlertTriangle className="w-5 h-5 md:w-7 md:h-7" />
+                  {alert.message}
+                </div>
+              ))}
+              {hasTpmsWarning(tires) && (
+                <div className="flex items-center gap-3 bg-red-600/20 border border-red-500/60 px-6 py-2 rounded-full text-red-500 font-black uppercase tracking-[0.2em] text-sm md:text-xl animate-pulse drop-shadow-[0_0_15px_rgba(239,68,68,0.8)]">
+                  {t('banner.checkTires', {
+                    tires: flaggedTires.map(tire => `${t(TIRE_LABELS[tire.position])} ${formatPressure(tire.pressure, units.pressure)}`).join(' · '),
+                    unit: pressureLabel(units),
+                  })}
+                </div>
+              )}
+              {arrivalWarning && (
+                <div className="flex items-center gap-3 bg-red-600/20 border border-red-500/60 px-6 py-2 rounded-full text-red-500 font-black uppercase tracking-[0.2em] text-sm md:text-xl animate-pulse drop-shadow-[0_0_15px_rgba(239,68,68,0.8)]">
+                  <BatteryMedium className="w-5 h-5 md:w-7 md:h-7" />
+                  {t('banner.arrival', { soc: Math.max(0, Math.round(lowestArrivalSoc)), reserve: arrivalSettings.reservePercent })}
+                </div>
+              )}
             </div>
+          )}
 
-            {/* Speed (central element) */}
-            <div className="flex flex-col items-center justify-center text-white w-full">
-              <div className="flex flex-col items-center">
-                <span className="text-[10rem] md:text-[14rem] lg:text-[20rem] leading-none font-black tabular-nums tracking-tight drop-shadow-[0_0_30px_rgba(255,255,255,0.5)]">
-                  {Math.round(convertValue(displayData.speed))}
-                </span>
-                <span className="text-2xl md:text-3xl font-bold text-cyan-300 uppercase tracking-widest -mt-4 md:-mt-8 drop-shadow-[0_0_8px_rgba(103,232,249,0.5)]">{speedUnit}</span>
-              </div>
+          {/* Top Left: Tire pressure diagram */}
+          {hasTpmsData(tires) && (
+            <div className="absolute top-6 left-6 z-30 pointer-events-none hidden md:block">
+              <TirePanel tires={tires} unit={units.pressure} />
             </div>
+          )}
+
+          {/* Mid: Charging view replaces the speed readout while plugged in */}
+          {displayData.isCharging ? (
+            <ChargingView
+              data={displayData}
+              finishTime={displayData.timeToFullCharge > 0 ? formatTime(Date.now() + displayData.timeToFullCharge * 3600000, units) : ''}
+            />
+          ) : showSummary ? (
+            <DriveSummary trip={trip} units={units} />
+          ) : (
+            /* Mid: Speed */
+            <div className="relative flex flex-col items-center justify-center flex-1">
+              <div className="flex flex-col md:grid md:grid-cols-3 items-center w-full relative">
 
-            {/* Right Stat (Gear & Power Bar) - Only on MD+ */}
-            <div className="hidden md:flex justify-end pr-4 lg:pr-12">
-              <div className="flex items-center justify-center gap-6 shrink-0">
-                {/* Gear Indicator */}
-                <div className="text-6xl lg:text-8xl font-black text-white italic tracking-tighter w-28 lg:w-32 text-center bg-white/5 px-4 py-2 rounded-2xl border border-white/10">
-                  {displayData.gear || 'P'}
+                {/* Left slot - Only on MD+ */}
+                <div className="hidden md:flex justify-start pl-4 lg:pl-12">
+                  <HudWidget id={layout.left} ctx={widgetContext} variant="side" />
                 </div>
 
-                {/* Vertical Power Bar (Landscape only) */}
-                <div className="w-4 h-32 md:h-48 bg-gray-900/60 rounded-full overflow-hidden relative border border-white/10 shrink-0">
-                  <div className="absolute top-1/2 left-0 right-0 h-1 bg-white/30 z-10"></div>
-                  <div
-                    className={`absolute left-0 right-0 transition-all duration-300 ${displayData.power < 0 ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.6)]' : 'bg-orange-600 shadow-[0_0_15px_rgba(249,115,22,0.6)]'}`}
-                    style={{
-                      top: displayData.power > 0 ? `${50 - (displayData.power / 300) * 50}%` : '50%',
-                      bottom: displayData.power < 0 ? `${50 + (displayData.power / 60) * 50}%` : '50%'
-                    }}
-                  />
+                {/* Speed (central element) */}
+                <div className="flex flex-col items-center justify-center text-white w-full">
+                  <div className={`flex flex-col items-center transition-opacity duration-500 ${speedStale ? 'opacity-30' : ''}`}>
+                    <span className={`text-[10rem] md:text-[14rem] lg:text-[20rem] leading-none font-black tabular-nums tracking-tight transition-colors duration-300 ${overspeed ? 'text-red-500 animate-pulse drop-shadow-[0_0_30px_rgba(239,68,68,0.9)]' : 'drop-shadow-[0_0_30px_rgba(255,255,255,0.5)]'}`}>
+                      {Math.round(toSpeed(displayData.speed, units))}
+                    </span>
+                    <span className="text-2xl md:text-3xl font-bold text-cyan-300 uppercase tracking-widest -mt-4 md:-mt-8 drop-shadow-[0_0_8px_rgba(103,232,249,0.5)]">{speedUnit}</span>
+                    {overspeed && (
+                      <span className="text-sm md:text-lg font-black text-red-500 uppercase tracking-widest mt-2">
+                        {t('hud.limit', { limit: Math.round(toSpeed(speedLimit, units)) })}{displayData.geofence && speedLimit !== speedLimits.maxSpeed ? ` · ${displayData.geofence}` : ''}
+                      </span>
+                    )}
+                    {speedStale && (
+                      <span className="text-sm md:text-lg font-bold text-yellow-500 uppercase tracking-widest mt-2">
+                        {t('hud.lastUpdate', { age: formatAge(fieldAge(displayData, 'speed', now)) })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {/* Right slot - Only on MD+ */}
+                <div className="hidden md:flex justify-end pr-4 lg:pr-12">
+                  <HudWidget id={layout.right} ctx={widgetContext} variant="side" />
                 </div>
               </div>
-            </div>
-          </div>
 
-          <div className="w-[66%] md:hidden max-w-3xl h-4 bg-gray-900/60 rounded-full mt-6 overflow-hidden relative border border-white/10 shrink-0">
-            <div className="absolute left-1/2 top-0 bottom-0 w-1 bg-white/30 z-10"></div>
-            <div className={`absolute top-0 bottom-0 transition-all duration-300 ${displayData.power < 0 ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.6)]' : 'bg-orange-600 shadow-[0_0_15px_rgba(249,115,22,0.6)]'}`} style={{ left: displayData.power < 0 ? `${50 + (displayData.power / 60) * 50}%` : '50%', right: displayData.power > 0 ? `${50 - (displayData.power / 300) * 50}%` : '50%' }} />
-          </div>
+              {layoutShowsPower(layout) && (
+                <div className={`w-[66%] md:hidden max-w-3xl h-4 bg-gray-900/60 rounded-full mt-6 overflow-hidden relative border border-white/10 shrink-0 transition-opacity duration-500 ${powerStale ? 'opacity-30' : ''}`}>
+                  <div className="absolute left-1/2 top-0 bottom-0 w-1 bg-white/30 z-10"></div>
+                  <div className={`absolute top-0 bottom-0 transition-all duration-300 ${displayData.power < 0 ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.6)]' : 'bg-orange-600 shadow-[0_0_15px_rgba(249,115,22,0.6)]'}`} style={{ left: displayData.power < 0 ? `${50 + (displayData.power / 60) * 50}%` : '50%', right: displayData.power > 0 ? `${50 - (displayData.power / 300) * 50}%` : '50%' }} />
+                </div>
+              )}
 
-          {/* Portrait-only Row: Gear & Range */}
-          <div className="flex md:hidden w-full justify-between items-center px-12 mt-6 shrink-0">
-            <div className="text-4xl font-black text-white italic tracking-tighter bg-white/5 px-5 py-2 rounded-2xl border border-white/10 backdrop-blur-sm">
-              {displayData.gear || 'P'}
-            </div>
-            <div className="flex flex-col items-center drop-shadow-[0_0_10px_rgba(0,0,0,0.5)]">
-              <span className={`text-5xl font-black transition-colors duration-500 ${displayData.range <= 25 ? 'text-red-500 drop-shadow-[0_0_15px_rgba(239,68,68,0.8)]' : 'text-gray-200'}`}>
-                {Math.round(convertValue(displayData.range))}
-              </span>
-              <span className="text-xs font-bold text-cyan-300 uppercase -mt-1">{distUnit}</span>
+              {/* Portrait-only Row: left & right slots */}
+              {(layout.left !== 'none' || layout.right !== 'none') && (
+                <div className="flex md:hidden w-full justify-between items-center px-12 mt-6 shrink-0 drop-shadow-[0_0_10px_rgba(0,0,0,0.5)]">
+                  <HudWidget id={layout.left} ctx={widgetContext} variant="portrait" />
+                  <HudWidget id={layout.right} ctx={widgetContext} variant="portrait" />
+                </div>
+              )}
+
+              {/* Info row: smaller readouts under the speed */}
+              {infoWidgets.length > 0 && (
+                <div className="flex w-full justify-center items-end gap-8 md:gap-16 mt-6 md:mt-2 shrink-0">
+                  {infoWidgets.map(slot => (
+                    <HudWidget key={slot} id={layout[slot]} ctx={widgetContext} variant="info" />
+                  ))}
+                </div>
+              )}
+
+              {/* Nav Overview (Portrait only, to prevent center jump in landscape) */}
+              {(displayData.destination || displayData.activeRoute) && (
+                <div className="mt-6 md:hidden w-full flex flex-col items-center justify-center z-20 pointer-events-none shrink-0 relative">
+                  <div className="animate-in fade-in slide-in-from-top duration-700 flex flex-col items-center justify-center">
+                    <div className={`flex flex-wrap items-center justify-center gap-x-4 md:gap-x-12 gap-y-2 text-gray-200 drop-shadow-[0_0_8px_rgba(255,255,255,0.4)] bg-black/20 backdrop-blur-sm px-4 md:px-6 py-2 rounded-full border border-white/5 mx-4 text-center transition-opacity duration-500 ${etaStale ? 'opacity-30' : ''}`}>
+                      <div className="flex items-center gap-2 md:gap-4 shrink-0">
+                        <Clock className="w-5 h-5 md:w-8 md:h-8 text-cyan-300" />
+                        <span className={`text-lg md:text-3xl font-bold transition-colors duration-300 ${etaShift ? `animate-pulse ${etaShift.minutes > 0 ? 'text-red-500' : 'text-green-400'}` : ''}`}>{t('nav.eta', { time: formatTime(displayData.estArrivalTime, units) })}</span>
+                        {etaShift ? (
+                          <span className={`text-base md:text-xl font-black ${etaShift.minutes > 0 ? 'text-red-500' : 'text-green-400'}`}>{formatEtaDelta(etaShift.minutes)}</span>
+                        ) : etaTrend !== 0 && (
+                          <span className={`flex items-center gap-1 text-sm md:text-lg font-bold ${etaTrend > 0 ? 'text-yellow-500' : 'text-green-400'}`}>
+                            {etaTrend > 0 ? <TrendingUp className="w-4 h-4 md:w-6 md:h-6" /> : <TrendingDown className="w-4 h-4 md:w-6 md:h-6" />}
+                            {formatEtaDelta(etaTrend)}
+                          </span>
+                        )}
+                      </div>
+
+                      {trafficDelay > 0 && (
+                        <div className="flex items-center gap-2 md:gap-4 shrink-0">
+                          <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
+                          <TrafficCone className="w-5 h-5 md:w-8 md:h-8 text-yellow-500" />
+                          <span className="text-lg md:text-3xl font-bold text-yellow-500">+{trafficDelay}</span>
+                          <span className="text-base md:text-xl font-bold text-cyan-200 md:ml-0 -ml-1">{t('common.minutes')}</span>
+                        </div>
+                      )}
+
+                      {displayData.timeToArrival > 0 && (
+                        <div className="flex items-center gap-2 md:gap-4 shrink-0">
+                          <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
+                          <span className="text-lg md:text-3xl font-bold">{Math.round(displayData.timeToArrival)}</span>
+                          <span className="text-base md:text-xl font-bold text-cyan-200 md:ml-0 -ml-1">{t('common.minutes')}</span>
+                        </div>
+                      )}
+
+                      {displayData.activeRoute?.miles_to_arrival && (
+                        <div className="flex items-center gap-2 md:gap-4 shrink-0">
+                          <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
+                          <Navigation className="w-5 h-5 md:w-8 md:h-8 text-cyan-300 rotate-45" />
+                          <span className="text-lg md:text-3xl font-bold">
+                            {routeDistance(displayData.activeRoute.miles_to_arrival)}
+                          </span>
+                          <span className="text-base md:text-xl font-bold text-cyan-200 md:ml-0 -ml-1">{distUnit}</span>
+                        </div>
+                      )}
+
+                      {(navArrivalSoc !== null || estimatedArrivalSoc !== null) && (
+                        <div className="flex items-center gap-2 md:gap-4 shrink-0">
+                          <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
+                          <BatteryMedium className={`w-5 h-5 md:w-8 md:h-8 ${ARRIVAL_COLORS[arrivalLevel(lowestArrivalSoc, arrivalSettings)]}`} />
+                          {navArrivalSoc !== null && (
+                            <span className={`text-lg md:text-3xl font-bold ${ARRIVAL_COLORS[arrivalLevel(navArrivalSoc, arrivalSettings)]}`}>{Math.round(navArrivalSoc)}%</span>
+                          )}
+                          {estimatedArrivalSoc !== null && (
+                            <span className={`text-base md:text-xl font-bold ${ARRIVAL_COLORS[arrivalLevel(estimatedArrivalSoc, arrivalSettings)]}`}>≈{Math.max(0, Math.round(estimatedArrivalSoc))}%</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
-          {/* Nav Overview (Portrait only, to prevent center jump in landscape) */}
-          {(displayData.destination || displayData.activeRoute) && (
-            <div className="mt-6 md:hidden w-full flex flex-col items-center justify-center z-20 pointer-events-none shrink-0 relative">
-              <div className="animate-in fade-in slide-in-from-top duration-700 flex flex-col items-center justify-center">
-                <div className="flex flex-wrap items-center justify-center gap-x-4 md:gap-x-12 gap-y-2 text-gray-200 drop-shadow-[0_0_8px_rgba(255,255,255,0.4)] bg-black/20 backdrop-blur-sm px-4 md:px-6 py-2 rounded-full border border-white/5 mx-4 text-center">
-                  <div className="flex items-center gap-2 md:gap-4 shrink-0">
-                    <Clock className="w-5 h-5 md:w-8 md:h-8 text-cyan-300" />
-                    <span className="text-lg md:text-3xl font-bold">ETA: {formatTime(displayData.estArrivalTime)}</span>
+          {/* Bottom: Navigation (Landscape - Absolute to avoid layout shift) */}
+          <div className="hidden md:flex absolute bottom-8 left-0 right-0 justify-center z-50 pointer-events-none">
+            {(displayData.destination || displayData.activeRoute) && (
+              <div className="animate-in fade-in slide-in-from-bottom duration-700">
+                <div className={`flex items-center justify-center gap-x-12 text-gray-200 drop-shadow-[0_0_8px_rgba(255,255,255,0.4)] bg-black/40 backdrop-blur-md px-10 py-3 rounded-full border border-white/10 text-center transition-opacity duration-500 ${etaStale ? 'opacity-30' : ''}`}>
+                  <div className="flex items-center gap-4 shrink-0">
+                    <Clock className="w-8 h-8 text-cyan-300" />
+                    <span className={`text-3xl font-bold transition-colors duration-300 ${etaShift ? `animate-pulse ${etaShift.minutes > 0 ? 'text-red-500' : 'text-green-400'}` : ''}`}>{t('nav.eta', { time: formatTime(displayData.estArrivalTime, units) })}</span>
+                    {etaShift ? (
+                      <span className={`text-xl font-black ${etaShift.minutes > 0 ? 'text-red-500' : 'text-green-400'}`}>{formatEtaDelta(etaShift.minutes)}</span>
+                    ) : etaTrend !== 0 && (
+                      <span className={`flex items-center gap-1 text-lg font-bold ${etaTrend > 0 ? 'text-yellow-500' : 'text-green-400'}`}>
+                        {etaTrend > 0 ? <TrendingUp className="w-6 h-6" /> : <TrendingDown className="w-6 h-6" />}
+                        {formatEtaDelta(etaTrend)}
+                      </span>
+                    )}
                   </div>
 
+                  {trafficDelay > 0 && (
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className="text-gray-500 text-xl font-black">•</span>
+                      <TrafficCone className="w-8 h-8 text-yellow-500" />
+                      <span className="text-3xl font-bold text-yellow-500">+{trafficDelay}</span>
+                      <span className="text-xl font-bold text-cyan-200">{t('common.minutes')}</span>
+                    </div>
+                  )}
+
                   {displayData.timeToArrival > 0 && (
-                    <div className="flex items-center gap-2 md:gap-4 shrink-0">
-                      <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
-                      <span className="text-lg md:text-3xl font-bold">{Math.round(displayData.timeToArrival)}</span>
-                      <span className="text-base md:text-xl font-bold text-cyan-200 md:ml-0 -ml-1">min</span>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className="text-gray-500 text-xl font-black">•</span>
+                      <span className="text-3xl font-bold">{Math.round(displayData.timeToArrival)}</span>
+                      <span className="text-xl font-bold text-cyan-200">{t('common.minutes')}</span>
                     </div>
                   )}
 
                   {displayData.activeRoute?.miles_to_arrival && (
-                    <div className="flex items-center gap-2 md:gap-4 shrink-0">
-                      <span className="text-gray-500 text-xl font-black hidden md:block">•</span>
-                      <Navigation className="w-5 h-5 md:w-8 md:h-8 text-cyan-300 rotate-45" />
-                      <span className="text-lg md:text-3xl font-bold">
-                        {Math.round(units === 'KM' ? displayData.activeRoute.miles_to_arrival * 1.60934 : displayData.activeRoute.miles_to_arrival)}
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className="text-gray-500 text-xl font-black">•</span>
+                      <Navigation className="w-8 h-8 text-cyan-300 rotate-45" />
+                      <span className="text-3xl font-bold">
+                        {routeDistance(displayData.activeRoute.miles_to_arrival)}
                       </span>
-                      <span className="text-base md:text-xl font-bold text-cyan-200 md:ml-0 -ml-1">{distUnit}</span>
+                      <span className="text-xl font-bold text-cyan-200">{distUnit}</span>
                     </div>
                   )}
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
 
-        {/* Bottom: Navigation (Landscape - Absolute to avoid layout shift) */}
-        <div className="hidden md:flex absolute bottom-8 left-0 right-0 justify-center z-50 pointer-events-none">
-          {(displayData.destination || displayData.activeRoute) && (
-            <div className="animate-in fade-in slide-in-from-bottom duration-700">
-              <div className="flex items-center justify-center gap-x-12 text-gray-200 drop-shadow-[0_0_8px_rgba(255,255,255,0.4)] bg-black/40 backdrop-blur-md px-10 py-3 rounded-full border border-white/10 text-center">
-                <div className="flex items-center gap-4 shrink-0">
-                  <Clock className="w-8 h-8 text-cyan-300" />
-                  <span className="text-3xl font-bold">ETA: {formatTime(displayData.estArrivalTime)}</span>
+                  {(navArrivalSoc !== null || estimatedArrivalSoc !== null) && (
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className="text-gray-500 text-xl font-black">•</span>
+                      <BatteryMedium className={`w-8 h-8 ${ARRIVAL_COLORS[arrivalLevel(lowestArrivalSoc, arrivalSettings)]}`} />
+                      {navArrivalSoc !== null && (
+                        <span className={`text-3xl font-bold ${ARRIVAL_COLORS[arrivalLevel(navArrivalSoc, arrivalSettings)]}`}>{Math.round(navArrivalSoc)}%</span>
+                      )}
+                      {estimatedArrivalSoc !== null && (
+                        <span className={`text-xl font-bold ${ARRIVAL_COLORS[arrivalLevel(estimatedArrivalSoc, arrivalSettings)]}`}>≈{Math.max(0, Math.round(estimatedArrivalSoc))}%</span>
+                      )}
+                    </div>
+                  )}
                 </div>
-
-                {displayData.timeToArrival > 0 && (
-                  <div className="flex items-center gap-4 shrink-0">
-                    <span className="text-gray-500 text-xl font-black">•</span>
-                    <span className="text-3xl font-bold">{Math.round(displayData.timeToArrival)}</span>
-                    <span className="text-xl font-bold text-cyan-200">min</span>
-                  </div>
-                )}
-
-                {displayData.activeRoute?.miles_to_arrival && (
-                  <div className="flex items-center gap-4 shrink-0">
-                    <span className="text-gray-500 text-xl font-black">•</span>
-                    <Navigation className="w-8 h-8 text-cyan-300 rotate-45" />
-                    <span className="text-3xl font-bold">
-                      {Math.round(units === 'KM' ? displayData.activeRoute.miles_to_arrival * 1.60934 : displayData.activeRoute.miles_to_arrival)}
-                    </span>
-                    <span className="text-xl font-bold text-cyan-200">{distUnit}</span>
-                  </div>
-                )}
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
       </div>
 
 
 
+      {isCalibrating && (
+        <CalibrationOverlay
+          calibration={calibration}
+          profiles={calibrationProfiles}
+          activeProfile={calibrationProfile}
+          width={viewport.width}
+          height={viewport.height}
+          onChange={updateCalibration}
+          onSelectProfile={selectCalibrationProfile}
+          onSaveProfile={saveCalibrationProfile}
+          onDeleteProfile={deleteCalibrationProfile}
+          onDone={() => setIsCalibrating(false)}
+        />
+      )}
+
+      {/* Demo transport - out of mirror div so it stays readable */}
+      {isDemo && !isFullscreen && (
+        <div className="absolute bottom-4 left-4 z-[90]">
+          <DemoControls
+            scenario={scenario}
+            duration={demoDuration}
+            elapsed={demoElapsed}
+            playing={demoPlaying}
+            speed={demoSpeed}
+            loop={demoLoop}
+            onSeek={setDemoElapsed}
+            onTogglePlay={() => setDemoPlaying(playing => !playing)}
+            onSpeed={setDemoSpeed}
+            onToggleLoop={() => setDemoLoop(loop => !loop)}
+            onStop={stopDemo}
+          />
+        </div>
+      )}
+
       {/* Settings (Discrete) - out of mirror div */}
       {!isFullscreen && (
         <div className="absolute bottom-4 right-4 z-[90] flex gap-4 opacity-100 hover:opacity-100 transition-opacity">
@@ -432,49 +1103,355 @@ export default function App() {
             <div className="max-w-4xl mx-auto flex flex-col min-h-full">
 
               <div className="mb-8 md:mb-12 shrink-0">
-                <h2 className="text-3xl md:text-5xl font-black tracking-tight text-white mb-2">Settings</h2>
-                <p className="text-gray-400 font-medium text-sm md:text-base">Configure display and data connection preferences.</p>
+                <h2 className="text-3xl md:text-5xl font-black tracking-tight text-white mb-2">{t('settings.title')}</h2>
+                <p className="text-gray-400 font-medium text-sm md:text-base">{t('settings.subtitle')}</p>
               </div>
 
               <form onSubmit={handleRelink} className="flex flex-col flex-1 space-y-6 md:space-y-8">
 
                 <div className="flex flex-col gap-3 shrink-0">
-                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">Measurement Units</span>
-                  <div className="flex gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('language.title')}</span>
+                  <div className="flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+                    {[{ value: '' as const, label: t('language.auto', { language: LANGUAGES.find(l => l.value === detectLanguage())!.label }) }, ...LANGUAGES].map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => updateLanguage(value)}
+                        className={`flex-1 py-2.5 md:py-4 px-3 rounded-lg font-bold text-xs md:text-base uppercase transition-all ${language === value ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <UnitSettingsEditor units={units} onChange={updateUnits} />
+
+                <LayoutEditor
+                  layout={layout}
+                  customPresets={layoutPresets}
+                  onChange={updateLayout}
+                  onSavePreset={saveLayoutPreset}
+                  onDeletePreset={deleteLayoutPreset}
+                />
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('tpms.title')}</span>
+                  <div className="flex gap-2">
+                    <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                      {t('tpms.warnBelow', { unit: pressureLabel(units) })}
+                      <input
+                        type="number"
+                        step={units.pressure === 'bar' ? 0.1 : 1}
+                        min={0}
+                        value={Number(toPressure(tpmsSettings.lowThreshold, units.pressure).toFixed(pressureDecimals(units.pressure)))}
+                        onChange={e => updateTpmsSettings({ lowThreshold: fromPressure(parseFloat(e.target.value) || 0, units.pressure) })}
+                        className="w-20 bg-transparent text-right text-white outline-none"
+                      />
+                    </label>
+                    <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                      {t('tpms.maxDifference', { unit: pressureLabel(units) })}
+                      <input
+                        type="number"
+                        step={units.pressure === 'bar' ? 0.1 : 1}
+                        min={0}
+                        value={Number(toPressure(tpmsSettings.maxDeviation, units.pressure).toFixed(pressureDecimals(units.pressure)))}
+                        onChange={e => updateTpmsSettings({ maxDeviation: fromPressure(parseFloat(e.target.value) || 0, units.pressure) })}
+                        className="w-20 bg-transparent text-right text-white outline-none"
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('stale.title')}</span>
+                  <label className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                    {t('stale.dimAfter')}
+                    <input
+                      type="number"
+                      step={10}
+                      min={10}
+                      value={staleSeconds}
+                      onChange={e => updateStaleSeconds(parseInt(e.target.value) || DEFAULT_STALE_SECONDS)}
+                      className="w-20 bg-transparent text-right text-white outline-none"
+                    />
+                  </label>
+                </div>
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('theme.title')}</span>
+                  <div className="flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+                    {THEME_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => updateThemeSettings({ mode })}
+                        className={`flex-1 py-2.5 md:py-4 px-3 rounded-lg font-bold text-xs md:text-base uppercase transition-all ${themeSettings.mode === mode ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                  {(themeSettings.mode === 'sun' || themeSettings.mode === 'schedule') && (
+                    <div className="flex gap-2">
+                      <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                        {t('theme.dayFrom')}
+                        <input type="time" value={themeSettings.dayStart} onChange={e => updateThemeSettings({ dayStart: e.target.value })} className="bg-transparent text-right text-white outline-none" />
+                      </label>
+                      <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                        {t('theme.nightFrom')}
+                        <input type="time" value={themeSettings.nightStart} onChange={e => updateThemeSettings({ nightStart: e.target.value })} className="bg-transparent text-right text-white outline-none" />
+                      </label>
+                    </div>
+                  )}
+                  {themeSettings.mode === 'sun' && (
+                    <span className="text-gray-500 text-xs md:text-sm font-bold">
+                      {!sun ? t('theme.noPosition') :
+                        sun.alwaysUp ? t('theme.midnightSun') :
+                          sun.alwaysDown ? t('theme.polarNight') :
+                            t('theme.sunTimes', { sunrise: formatTime(sun.sunrise!, units), sunset: formatTime(sun.sunset!, units) })}
+                    </span>
+                  )}
+                  <label className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                    {t('theme.dimming')}
+                    <input
+                      type="number"
+                      step={10}
+                      min={0}
+                      max={MAX_DIMMING}
+                      value={themeSettings.dimming}
+                      onChange={e => updateThemeSettings({ dimming: Math.min(MAX_DIMMING, Math.max(0, parseInt(e.target.value) || 0)) })}
+                      className="w-20 bg-transparent text-right text-white outline-none"
+                    />
+                  </label>
+                </div>
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('calibration.title')}</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowSettings(false);
+                      setIsCalibrating(true);
+                    }}
+                    className="w-full py-2.5 md:py-4 rounded-xl font-bold text-xs md:text-base uppercase transition-all border bg-gray-900 text-gray-300 border-gray-800 hover:text-white"
+                  >
+                    {t('calibration.calibrate', { profile: calibrationProfile })}{isIdentity(calibration) ? '' : ` ${t('calibration.active')}`}
+                  </button>
+                </div>
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('arrival.title')}</span>
+                  <div className="flex gap-2">
+                    <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                      {t('arrival.reserve')}
+                      <input
+                        type="number"
+                        step={1}
+                        min={0}
+                        max={50}
+                        value={arrivalSettings.reservePercent}
+                        onChange={e => updateArrivalSettings({ reservePercent: parseFloat(e.target.value) || 0 })}
+                        className="w-20 bg-transparent text-right text-white outline-none"
+                      />
+                    </label>
+                    <label className="flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                      {t('arrival.capacity')}
+                      <input
+                        type="number"
+                        step={1}
+                        min={10}
+                        value={arrivalSettings.capacityKwh}
+                        onChange={e => updateArrivalSettings({ capacityKwh: parseFloat(e.target.value) || DEFAULT_ARRIVAL_SETTINGS.capacityKwh })}
+                        className="w-20 bg-transparent text-right text-white outline-none"
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('driveSummary.title')}</span>
+                  <label className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+                    {t('driveSummary.showFor')}
+                    <input
+                      type="number"
+                      step={5}
+                      min={0}
+                      value={summarySeconds}
+                      onChange={e => updateSummarySeconds(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 bg-transparent text-right text-white outline-none"
+                    />
+                  </label>
+                </div>
+
+                <SpeedLimitEditor
+                  settings={speedLimits}
+                  units={units}
+                  currentGeofence={displayData.geofence}
+                  onChange={updateSpeedLimits}
+                />
+
+                <AlertRulesEditor settings={alertSettings} proxyRules={proxyAlertRules} units={units} onChange={updateAlertSettings} />
+
+                <SpeechSettingsEditor
+                  settings={speechSettings}
+                  onChange={updateSpeechSettings}
+                  onTest={() => speechAnnouncerRef.current.preview(t('speech.preview'))}
+                />
+
+                {authInfo?.required && (
+                  <div className="flex flex-col gap-3 shrink-0">
+                    <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('device.title')}</span>
+                    {authInfo.authenticated ? (
+                      <div className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold">
+                        <span className="text-green-400">{t('device.linked')}</span>
+                        <button type="button" onClick={forgetDevice} className="text-gray-400 hover:text-white uppercase">{t('device.forget')}</button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          autoComplete="off"
+                          placeholder={t(authInfo.pairing ? 'device.pairingPlaceholder' : 'device.tokenPlaceholder')}
+                          value={pairingInput}
+                          onChange={e => setPairingInput(e.target.value)}
+                          className="flex-1 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-white outline-none"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleLinkDevice}
+                          disabled={!pairingInput.trim()}
+                          className="px-6 py-2.5 bg-blue-600 rounded-xl font-bold text-xs md:text-base uppercase text-white hover:bg-blue-500 disabled:opacity-40 transition-all"
+                        >
+                          {t('device.link')}
+                        </button>
+                      </div>
+                    )}
+                    {pairingError && <span className="text-red-400 text-xs md:text-sm font-bold">{pairingError}</span>}
+                  </div>
+                )}
+
+                <div className="flex flex-col gap-3 shrink-0">
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('proxy.title')}</span>
+                  <div className="flex gap-2">
                     <button
                       type="button"
-                      onClick={() => { setUnits('KM'); localStorage.setItem('hud_units', 'KM'); }}
-                      className={`flex-1 py-2.5 md:py-4 rounded-lg font-bold text-xs md:text-base transition-all ${units === 'KM' ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                      onClick={() => uploadSettings('device')}
+                      className="flex-1 py-2.5 md:py-4 bg-gray-900 rounded-xl border border-gray-800 font-bold text-xs md:text-base text-gray-400 hover:text-white uppercase transition-all"
                     >
-                      KILOMETERS (KM)
+                      {t('proxy.saveDevice')}
                     </button>
                     <button
                       type="button"
-                      onClick={() => { setUnits('MI'); localStorage.setItem('hud_units', 'MI'); }}
-                      className={`flex-1 py-2.5 md:py-4 rounded-lg font-bold text-xs md:text-base transition-all ${units === 'MI' ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                      onClick={() => uploadSettings('defaults')}
+                      className="flex-1 py-2.5 md:py-4 bg-gray-900 rounded-xl border border-gray-800 font-bold text-xs md:text-base text-gray-400 hover:text-white uppercase transition-all"
                     >
-                      MILES (MPH/MI)
+                      {t('proxy.saveDefaults')}
                     </button>
                   </div>
+                  <span className="text-gray-500 text-xs md:text-sm">
+                    {syncStatus || t('proxy.remoteHint', { url: `${window.location.host}/remote`, name: getDeviceName() })}
+                  </span>
                 </div>
 
+                {cars.length > 0 && (
+                  <div className="flex flex-col gap-3 shrink-0">
+                    <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('vehicle.title')}</span>
+                    <div className="flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+                      {cars.map(car => (
+                        <button
+                          key={car.id}
+                          type="button"
+                          onClick={() => selectCar(car.id)}
+                          className={`flex-1 py-2.5 md:py-4 rounded-lg font-bold text-xs md:text-base uppercase transition-all ${carId === car.id ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                        >
+                          {car.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex flex-col gap-3 shrink-0">
-                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">Testing & Simulation</span>
+                  <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('demo.title')}</span>
+                  {scenarios.length > 1 && (
+                    <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+                      {scenarios.map(option => (
+                        <button
+                          key={option.id}
+                          type="button"
+                          onClick={() => {
+                            setScenario(option);
+                            setDemoElapsed(0);
+                          }}
+                          className={`flex flex-col gap-1 px-4 py-2.5 rounded-xl border text-left text-xs md:text-base font-bold transition-all ${scenario.id === option.id ? 'bg-indigo-600/20 text-indigo-300 border-indigo-500/50' : 'bg-gray-900 text-gray-300 border-gray-800 hover:text-white'}`}
+                        >
+                          <span>{localize(option.name)} · {Math.round(scenarioDuration(option))}s</span>
+                          {option.description && <span className="text-gray-500 font-normal text-xs md:text-sm">{localize(option.description)}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <button
                     type="button"
                     onClick={isDemo ? stopDemo : startDemo}
-                    className={`w-full py-2.5 md:py-4 rounded-xl font-bold text-xs md:text-base transition-all border ${isDemo ? 'bg-red-600/20 text-red-500 border-red-500/50 hover:bg-red-600/30 shadow-[0_0_10px_rgba(239,68,68,0.2)]' : 'bg-indigo-600/20 text-indigo-400 border-indigo-500/50 hover:bg-indigo-600/30'}`}
+                    className={`w-full py-2.5 md:py-4 rounded-xl font-bold text-xs md:text-base uppercase transition-all border ${isDemo ? 'bg-red-600/20 text-red-500 border-red-500/50 hover:bg-red-600/30 shadow-[0_0_10px_rgba(239,68,68,0.2)]' : 'bg-indigo-600/20 text-indigo-400 border-indigo-500/50 hover:bg-indigo-600/30'}`}
                   >
-                    {isDemo ? 'STOP DEMO SEQUENCE' : 'START DEMO SEQUENCE'}
+                    {t(isDemo ? 'demo.stop' : 'demo.start')}
                   </button>
                 </div>
 
+                {(recordings.length > 0 || replay) && (
+                  <div className="flex flex-col gap-3 shrink-0">
+                    <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('replay.title')}</span>
+                    <div className="flex gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+                      {REPLAY_SPEEDS.map(speed => (
+                        <button
+                          key={speed}
+                          type="button"
+                          onClick={() => setReplaySpeed(speed)}
+                          className={`flex-1 py-2.5 md:py-4 rounded-lg font-bold text-xs md:text-base transition-all ${replaySpeed === speed ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+                        >
+                          {speed}x
+                        </button>
+                      ))}
+                    </div>
+                    {replay && (
+                      <button
+                        type="button"
+                        onClick={() => setReplay(null)}
+                        className="w-full py-2.5 md:py-4 rounded-xl font-bold text-xs md:text-base uppercase transition-all border bg-red-600/20 text-red-500 border-red-500/50 hover:bg-red-600/30"
+                      >
+                        {t('replay.stop')}
+                      </button>
+                    )}
+                    <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+                      {recordings.slice(0, 20).map(recording => (
+                        <button
+                          key={recording.id}
+                          type="button"
+                          onClick={() => startReplay(recording)}
+                          className={`flex items-center justify-between gap-3 px-4 py-2.5 rounded-xl border text-left text-xs md:text-base font-bold transition-all ${replay?.id === recording.id ? 'bg-indigo-600/20 text-indigo-300 border-indigo-500/50' : 'bg-gray-900 text-gray-300 border-gray-800 hover:text-white'}`}
+                        >
+                          <span className="flex items-center gap-3">
+                            <Play size={16} />
+                            {formatDateTime(recording.startedAt, units)}
+                          </span>
+                          <span className="text-gray-500 uppercase">
+                            {t(RECORDING_KIND_LABELS[recording.kind])} · {cars.find(car => car.id === recording.carId)?.name ?? t('vehicle.car', { id: recording.carId })} · {Math.max(1, Math.round((recording.endedAt - recording.startedAt) / 60000))} {t('common.minutes')}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex flex-col gap-3 flex-1">
                   <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm flex items-center gap-2">
-                    <Terminal size={14} className="md:w-4 md:h-4" /> Link Status
+                    <Terminal size={14} className="md:w-4 md:h-4" /> {t('log.title')}
                   </span>
                   <div className="bg-gray-900 rounded-2xl p-4 md:p-6 border border-gray-800 shadow-inner flex flex-col h-48 md:h-auto md:flex-1 overflow-y-auto font-mono text-xs md:text-sm">
-                    {debugLogs.length === 0 && <div className="text-gray-600 italic">No connection established yet...</div>}
+                    {debugLogs.length === 0 && <div className="text-gray-600 italic">{t('log.empty')}</div>}
                     {debugLogs.map((log, i) => (
                       <div key={i} className={`mb-2 md:mb-3 ${log.includes('✅') ? 'text-green-400' : log.includes('❌') ? 'text-red-400' : 'text-gray-400'}`}>
                         {log}
@@ -485,8 +1462,8 @@ export default function App() {
                 </div>
 
                 <div className="pt-4 md:pt-8 flex gap-3 md:gap-6 pb-4 md:pb-8 shrink-0 mt-auto">
-                  <button type="button" onClick={() => setShowSettings(false)} className="flex-1 py-3 md:py-5 bg-gray-800 rounded-xl font-bold text-sm md:text-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-all">DISMISS</button>
-                  <button type="submit" className="flex-1 py-3 md:py-5 bg-blue-600 rounded-xl font-bold text-sm md:text-lg text-white hover:bg-blue-500 shadow-md shadow-blue-600/20 active:scale-95 transition-all outline-none">RE-LINK DATA FEED</button>
+                  <button type="button" onClick={() => setShowSettings(false)} className="flex-1 py-3 md:py-5 bg-gray-800 rounded-xl font-bold text-sm md:text-lg uppercase text-gray-300 hover:bg-gray-700 hover:text-white transition-all">{t('settings.dismiss')}</button>
+                  <button type="submit" className="flex-1 py-3 md:py-5 bg-blue-600 rounded-xl font-bold text-sm md:text-lg uppercase text-white hover:bg-blue-500 shadow-md shadow-blue-600/20 active:scale-95 transition-all outline-none">{t('settings.relink')}</button>
                 </div>
 
               </form>
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { X, Plus, Bell, BellOff, RotateCcw } from 'lucide-react';
+import { INITIAL_DATA } from '../types.ts';
+import {
+  AlertRule, AlertSettings, AlertSeverity, AlertOperator, AlertCondition,
+  ALERT_SEVERITIES, ALERT_OPERATORS, DERIVED_FACTS, DEFAULT_ALERT_RULES, TEMPERATURE_FACTS,
+} from '../services/alerts.ts';
+import { playChime, unlockAudio } from '../services/chime.ts';
+import { localize, t } from '../services/i18n.ts';
+import { UnitSettings, fromTemperature, temperatureLabel, toTemperature } from '../services/units.ts';
+
+interface AlertRulesEditorProps {
+  settings: AlertSettings;
+  proxyRules: AlertRule[];
+  units: UnitSettings;
+  onChange: (changes: Partial<AlertSettings>) => void;
+}
+
+const FACTS = [
+  ...Object.entries(INITIAL_DATA)
+    .filter(([, value]) => ['number', 'string', 'boolean'].includes(typeof value))
+    .map(([field]) => field),
+  ...DERIVED_FACTS,
+].sort();
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: 'text-cyan-300',
+  warning: 'text-yellow-500',
+  critical: 'text-red-500',
+};
+
+const fieldClass = 'bg-gray-900 rounded-xl border border-gray-800 px-3 py-2.5 text-xs md:text-base font-bold text-white outline-none';
+
+// "true"/"false" and numbers are typed, anything else compares as text (e.g. gear == D)
+const parseValue = (text: string): AlertCondition['value'] => {
+  if (text === 'true' || text === 'false') return text === 'true';
+  const number = parseFloat(text);
+  return !isNaN(number) && String(number) === text.trim() ? number : text;
+};
+
+const conditionValue = ({ fact, value }: AlertCondition, units: UnitSettings) =>
+  TEMPERATURE_FACTS.includes(fact) && typeof value === 'number'
+    ? `${Math.round(toTemperature(value, units))}${temperatureLabel(units)}`
+    : String(value);
+
+const describe = (rule: AlertRule, units: UnitSettings) =>
+  rule.conditions.map(c => `${c.fact} ${c.op} ${conditionValue(c, units)}`).join(` ${t('alerts.and')} `);
+
+// Settings section: chime volume, local rules (editable), proxy rules (read-only) and a form for new rules
+export default function AlertRulesEditor({ settings, proxyRules, units, onChange }: AlertRulesEditorProps) {
+  const [name, setName] = useState('');
+  const [fact, setFact] = useState('batteryLevel');
+  const [op, setOp] = useState<AlertOperator>('<=');
+  const [value, setValue] = useState('20');
+  const [severity, setSeverity] = useState<AlertSeverity>('warning');
+  const [cooldownMinutes, setCooldownMinutes] = useState(10);
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange({ rules: settings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const removeRule = (id: string) => {
+    onChange({ rules: settings.rules.filter(rule => rule.id !== id) });
+  };
+
+  const addRule = () => {
+    const parsed = parseValue(value);
+    // Temperatures are typed in the chosen unit and compared in °C
+    const threshold = TEMPERATURE_FACTS.includes(fact) && typeof parsed === 'number' ? fromTemperature(parsed, units) : parsed;
+    const rule: AlertRule = {
+      id: `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${Date.now().toString(36)}`,
+      name: name.trim(),
+      message: `${name.trim()} · {${fact}}`,
+      severity,
+      conditions: [{ fact, op, value: threshold }],
+      cooldownSeconds: cooldownMinutes * 60,
+      chime: severity !== 'info',
+      enabled: true,
+    };
+    onChange({ rules: [...settings.rules, rule] });
+    setName('');
+  };
+
+  const testChime = () => {
+    unlockAudio();
+    setTimeout(() => playChime('warning', settings.chimeVolume), 50);
+  };
+
+  const proxyOnly = proxyRules.filter(rule => !settings.rules.some(local => local.id === rule.id));
+
+  const ruleRow = (rule: AlertRule, editable: boolean) => (
+    <div key={rule.id} className={`flex items-center gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold ${rule.enabled ? '' : 'opacity-50'}`}>
+      <button
+        type="button"
+        disabled={!editable}
+        onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+        className={`w-10 shrink-0 text-left uppercase ${rule.enabled ? 'text-blue-400' : 'text-gray-500'}`}
+        title={t(rule.enabled ? 'alerts.disableRule' : 'alerts.enableRule')}
+      >
+        {t(rule.enabled ? 'common.on' : 'common.off')}
+      </button>
+      <div className="flex-1 min-w-0 flex flex-col">
+        <span className="text-white truncate">
+          {localize(rule.name)}
+          <span className={`ml-2 uppercase text-[10px] md:text-xs ${SEVERITY_COLORS[rule.severity]}`}>{t(`severity.${rule.severity}`)}</span>
+          {!editable && <span className="ml-2 uppercase text-[10px] md:text-xs text-indigo-400">{t('alerts.proxy')}</span>}
+        </span>
+        <span className="text-gray-500 text-[10px] md:text-xs truncate">{t('alerts.ruleSummary', { conditions: describe(rule, units), minutes: Math.round(rule.cooldownSeconds / 60) })}</span>
+      </div>
+      <button
+        type="button"
+        disabled={!editable}
+        onClick={() => updateRule(rule.id, { chime: !rule.chime })}
+        className={rule.chime ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-white'}
+        title={t(rule.chime ? 'alerts.muteChime' : 'alerts.playChime')}
+      >
+        {rule.chime ? <Bell size={18} /> : <BellOff size={18} />}
+      </button>
+      {editable && (
+        <button type="button" onClick={() => removeRule(rule.id)} className="text-gray-500 hover:text-red-400" title={t('alerts.removeRule')}>
+          <X size={18} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 shrink-0">
+      <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('alerts.title')}</span>
+      <div className="flex gap-2">
+        <label className="flex-1 flex items-center gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+          {t('alerts.chime')}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={settings.chimeVolume}
+            onChange={e => onChange({ chimeVolume: parseInt(e.target.value) })}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="w-12 text-right text-white tabular-nums">{settings.chimeVolume === 0 ? t('common.off') : `${settings.chimeVolume}%`}</span>
+        </label>
+        <button
+          type="button"
+          onClick={testChime}
+          className="px-4 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase border border-gray-800 bg-gray-900 text-gray-400 hover:text-white"
+        >
+          {t('common.test')}
+        </button>
+      </div>
+
+      {settings.rules.map(rule => ruleRow(rule, true))}
+      {proxyOnly.map(rule => ruleRow(rule, false))}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          autoComplete="off"
+          placeholder={t('alerts.namePlaceholder')}
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className={`${fieldClass} flex-1 min-w-[10rem]`}
+        />
+        <select value={fact} onChange={e => setFact(e.target.value)} className={fieldClass}>
+          {FACTS.map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+        <select value={op} onChange={e => setOp(e.target.value as AlertOperator)} className={fieldClass}>
+          {ALERT_OPERATORS.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+        <input type="text" autoComplete="off" value={value} onChange={e => setValue(e.target.value)} className={`${fieldClass} w-20`} />
+        <select value={severity} onChange={e => setSeverity(e.target.value as AlertSeverity)} className={fieldClass}>
+          {ALERT_SEVERITIES.map(s => <option key={s} value={s}>{t(`severity.${s}`)}</option>)}
+        </select>
+        <label className={`${fieldClass} flex items-center gap-2 text-gray-400`}>
+          {t('alerts.every')}
+          <input type="number" min={0} step={1} value={cooldownMinutes} onChange={e => setCooldownMinutes(Math.max(0, parseInt(e.target.value) || 0))} className="w-12 bg-transparent text-right text-white outline-none" />
+          {t('common.minutes')}
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={!name.trim() || !value.trim()}
+          className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase transition-all border border-gray-800 bg-gray-900 text-gray-400 hover:text-white disabled:opacity-40"
+        >
+          <Plus size={16} /> {t('alerts.add')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ rules: DEFAULT_ALERT_RULES })}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase transition-all border border-gray-800 bg-gray-900 text-gray-400 hover:text-white"
+        >
+          <RotateCcw size={16} /> {t('common.defaults')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { Check, RotateCcw, X } from 'lucide-react';
+import {
+  Calibration, CalibrationProfile, CornerOffsets, Point, IDENTITY_CALIBRATION, DEFAULT_PROFILE_NAME,
+  CALIBRATION_LIMITS, cornerPixels, toScreen, screenDeltaToKeystone,
+} from '../services/calibration.ts';
+import { t } from '../services/i18n.ts';
+
+interface CalibrationOverlayProps {
+  calibration: Calibration;
+  profiles: CalibrationProfile[];
+  activeProfile: string;
+  width: number;
+  height: number;
+  onChange: (calibration: Calibration) => void;
+  onSelectProfile: (name: string) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (name: string) => void;
+  onDone: () => void;
+}
+
+/** Grid drawn inside the calibrated area so the reflection shows any remaining distortion. */
+export function CalibrationGrid() {
+  return (
+    <div
+      className="absolute inset-0 z-[80] pointer-events-none border-4 border-cyan-400"
+      style={{
+        backgroundImage: 'linear-gradient(rgba(34,211,238,0.5) 1px, transparent 1px), linear-gradient(90deg, rgba(34,211,238,0.5) 1px, transparent 1px)',
+        backgroundSize: '10% 10%',
+      }}
+    />
+  );
+}
+
+const sliderClass = 'flex-1 accent-blue-500';
+const rowClass = 'flex items-center gap-3 text-xs md:text-sm font-bold text-gray-400';
+
+// Screen-space controls: corner handles for the keystone, sliders for scale/offset/rotation, profiles
+export default function CalibrationOverlay({
+  calibration, profiles, activeProfile, width, height,
+  onChange, onSelectProfile, onSaveProfile, onDeleteProfile, onDone,
+}: CalibrationOverlayProps) {
+  const dragRef = useRef<{ index: number; start: Point; corners: CornerOffsets } | null>(null);
+  const [profileName, setProfileName] = useState('');
+
+  const handles = cornerPixels(calibration, width, height).map(p => toScreen(calibration, width, height, p));
+
+  const onPointerDown = (index: number) => (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { index, start: { x: e.clientX, y: e.clientY }, corners: calibration.corners };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = screenDeltaToKeystone(calibration, e.clientX - drag.start.x, e.clientY - drag.start.y);
+    const corners = drag.corners.map((corner, i) => i === drag.index
+      ? { x: corner.x + delta.x / width, y: corner.y + delta.y / height }
+      : corner) as CornerOffsets;
+    onChange({ ...calibration, corners });
+  };
+
+  const onPointerUp = () => { dragRef.current = null; };
+
+  const saveProfile = () => {
+    onSaveProfile(profileName.trim());
+    setProfileName('');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[95] cursor-default"
+      onDoubleClick={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      {handles.map((p, index) => (
+        <div
+          key={index}
+          onPointerDown={onPointerDown(index)}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          className="absolute w-12 h-12 -ml-6 -mt-6 rounded-full bg-blue-600/60 border-4 border-white cursor-move touch-none shadow-[0_0_15px_rgba(37,99,235,0.8)]"
+          style={{ left: p.x, top: p.y }}
+        />
+      ))}
+
+      <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-[22rem] max-w-[90vw] flex flex-col gap-3 bg-gray-950/90 backdrop-blur-md p-5 rounded-2xl border border-gray-800 text-white">
+        <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('calibration.title')}</span>
+        <span className="text-gray-400 text-xs">{t('calibration.hint')}</span>
+
+        <label className={rowClass}>
+          <span className="w-16">{t('calibration.scale')}</span>
+          <input type="range" {...CALIBRATION_LIMITS.scale} value={calibration.scale} onChange={e => onChange({ ...calibration, scale: parseFloat(e.target.value) })} className={sliderClass} />
+          <span className="w-12 text-right text-white tabular-nums">{Math.round(calibration.scale * 100)}%</span>
+        </label>
+        <label className={rowClass}>
+          <span className="w-16">{t('calibration.offsetX')}</span>
+          <input type="range" {...CALIBRATION_LIMITS.offset} value={calibration.offsetX} onChange={e => onChange({ ...calibration, offsetX: parseFloat(e.target.value) })} className={sliderClass} />
+          <span className="w-12 text-right text-white tabular-nums">{calibration.offsetX}%</span>
+        </label>
+        <label className={rowClass}>
+          <span className="w-16">{t('calibration.offsetY')}</span>
+          <input type="range" {...CALIBRATION_LIMITS.offset} value={calibration.offsetY} onChange={e => onChange({ ...calibration, offsetY: parseFloat(e.target.value) })} className={sliderClass} />
+          <span className="w-12 text-right text-white tabular-nums">{calibration.offsetY}%</span>
+        </label>
+        <label className={rowClass}>
+          <span className="w-16">{t('calibration.rotation')}</span>
+          <input type="range" {...CALIBRATION_LIMITS.rotation} value={calibration.rotation} onChange={e => onChange({ ...calibration, rotation: parseFloat(e.target.value) })} className={sliderClass} />
+          <span className="w-12 text-right text-white tabular-nums">{calibration.rotation}°</span>
+        </label>
+
+        <div className="flex flex-wrap gap-2">
+          {profiles.map(profile => (
+            <div key={profile.name} className={`flex items-center rounded-lg transition-all ${activeProfile === profile.name ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}>
+              <button
+                type="button"
+                onClick={() => onSelectProfile(profile.name)}
+                className="px-3 py-1.5 font-bold text-xs uppercase"
+              >
+                {profile.name}
+              </button>
+              {profile.name !== DEFAULT_PROFILE_NAME && (
+                <button type="button" onClick={() => onDeleteProfile(profile.name)} className="pr-2 hover:text-red-400" title={t('calibration.deleteProfile', { name: profile.name })}>
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            autoComplete="off"
+            placeholder={t('calibration.profilePlaceholder')}
+            value={profileName}
+            onChange={e => setProfileName(e.target.value)}
+            className="flex-1 min-w-0 bg-gray-900 rounded-xl border border-gray-800 px-3 py-2 text-xs font-bold text-white outline-none"
+          />
+          <button
+            type="button"
+            onClick={saveProfile}
+            disabled={!profileName.trim()}
+            className="px-4 py-2 bg-blue-600 rounded-xl font-bold text-xs uppercase text-white hover:bg-blue-500 disabled:opacity-40 transition-all"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onChange(IDENTITY_CALIBRATION)}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl font-bold text-xs uppercase border border-gray-800 bg-gray-900 text-gray-400 hover:text-white"
+          >
+            <RotateCcw size={14} /> {t('calibration.reset')}
+          </button>
+          <button
+            type="button"
+            onClick={onDone}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl font-bold text-xs uppercase bg-blue-600 text-white hover:bg-blue-500"
+          >
+            <Check size={14} /> {t('calibration.done')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
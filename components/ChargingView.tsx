@@ -0,0 +1,73 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { TeslaData } from '../types.ts';
+import { t } from '../services/i18n.ts';
+
+interface ChargingViewProps {
+  data: TeslaData;
+  finishTime: string;   // formatted clock time, empty when unknown
+}
+
+const RING_RADIUS = 90;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+// Replaces the speed readout while the car is charging
+export default function ChargingView({ data, finishTime }: ChargingViewProps) {
+  const soc = Math.min(Math.max(data.batteryLevel, 0), 100);
+  const limit = Math.min(Math.max(data.chargeLimitSoc || 100, 0), 100);
+  const limitAngle = (limit / 100) * 360;
+
+  return (
+    <div className="relative flex flex-col md:flex-row items-center justify-center flex-1 gap-8 md:gap-20">
+
+      {/* SoC vs. limit progress ring */}
+      <div className="relative w-64 h-64 lg:w-80 lg:h-80 shrink-0">
+        <svg viewBox="0 0 200 200" className="w-full h-full -rotate-90">
+          <circle cx="100" cy="100" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth="12" />
+          <circle
+            cx="100" cy="100" r={RING_RADIUS} fill="none"
+            stroke="rgba(34,197,94,0.25)" strokeWidth="12"
+            strokeDasharray={`${(limit / 100) * RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+          />
+          <circle
+            cx="100" cy="100" r={RING_RADIUS} fill="none"
+            stroke="rgb(34,197,94)" strokeWidth="12" strokeLinecap="round"
+            strokeDasharray={`${(soc / 100) * RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+            className="transition-all duration-700 drop-shadow-[0_0_10px_rgba(34,197,94,0.8)]"
+          />
+        </svg>
+        {/* Limit marker */}
+        <div className="absolute inset-0" style={{ transform: `rotate(${limitAngle}deg)` }}>
+          <div className="absolute left-1/2 top-0 w-1 h-6 -translate-x-1/2 bg-white/70 rounded-full" />
+        </div>
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+          <span className="text-7xl lg:text-8xl font-black tabular-nums leading-none drop-shadow-[0_0_20px_rgba(255,255,255,0.4)]">{Math.round(soc)}</span>
+          <span className="text-xl lg:text-2xl font-bold text-cyan-300 uppercase tracking-widest">% / {Math.round(limit)}%</span>
+        </div>
+      </div>
+
+      {/* Charger telemetry */}
+      <div className="flex flex-row md:flex-col gap-8 md:gap-6 text-center md:text-left">
+        <div className="flex flex-col">
+          <span className="text-xs md:text-sm font-bold text-gray-500 uppercase tracking-widest">{t('charging.title')}</span>
+          <span className="flex items-center gap-2 text-4xl lg:text-6xl font-black text-green-400 tabular-nums drop-shadow-[0_0_15px_rgba(34,197,94,0.6)]">
+            <Zap className="w-8 h-8 lg:w-12 lg:h-12" />
+            {Math.round(data.chargerPower)}
+            <span className="text-xl lg:text-2xl font-bold text-cyan-300">kW</span>
+          </span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-xs md:text-sm font-bold text-gray-500 uppercase tracking-widest">{t('charging.doneAt')}</span>
+          <span className="text-4xl lg:text-6xl font-black text-gray-200 tabular-nums">{finishTime || '--:--'}</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-xs md:text-sm font-bold text-gray-500 uppercase tracking-widest">{t('charging.added')}</span>
+          <span className="text-4xl lg:text-6xl font-black text-gray-200 tabular-nums">
+            {data.chargeEnergyAdded.toFixed(1)}
+            <span className="text-xl lg:text-2xl font-bold text-cyan-300 ml-2">kWh</span>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import { normalizeDegrees, angleDelta, compassPoint } from '../services/geo.ts';
+
+interface CompassTapeProps {
+  heading: number;
+  targetBearing?: number | null;   // destination marker, degrees from north
+  large?: boolean;
+}
+
+const HALF_SPAN = 60; // degrees visible either side of the heading
+const TICK_STEP = 5;
+
+// Horizontal heading tape (aircraft style): the scale slides under a fixed centre mark
+export default function CompassTape({ heading, targetBearing = null, large = false }: CompassTapeProps) {
+  const position = (deg: number) => `${50 + (angleDelta(heading, deg) / HALF_SPAN) * 50}%`;
+
+  const first = Math.ceil((heading - HALF_SPAN) / TICK_STEP) * TICK_STEP;
+  const ticks: number[] = [];
+  for (let deg = first; deg <= heading + HALF_SPAN; deg += TICK_STEP) ticks.push(deg);
+
+  const targetOffset = targetBearing === null ? null : angleDelta(heading, targetBearing);
+
+  return (
+    <div className={`flex flex-col items-center ${large ? 'w-72 lg:w-96' : 'w-56 md:w-80'}`}>
+      <div className={`relative w-full overflow-hidden ${large ? 'h-16' : 'h-12'} [mask-image:linear-gradient(to_right,transparent,black_20%,black_80%,transparent)]`}>
+        {ticks.map(deg => {
+          const value = normalizeDegrees(deg);
+          const labelled = value % 15 === 0;
+          return (
+            <div key={deg} className="absolute top-0 flex flex-col items-center -translate-x-1/2" style={{ left: position(value) }}>
+              <div className={`w-0.5 ${labelled ? 'h-4 bg-gray-300' : 'h-2 bg-gray-500'}`} />
+              {labelled && (
+                <span className={`font-bold tabular-nums ${value % 45 === 0 ? 'text-cyan-300' : 'text-gray-400'} ${large ? 'text-xl lg:text-2xl' : 'text-sm md:text-lg'}`}>
+                  {value % 45 === 0 ? compassPoint(value) : value}
+                </span>
+              )}
+            </div>
+          );
+        })}
+        <div className="absolute left-1/2 top-0 -translate-x-1/2 w-1 h-6 bg-cyan-300 rounded-full shadow-[0_0_8px_rgba(103,232,249,0.8)]" />
+        {targetOffset !== null && Math.abs(targetOffset) <= HALF_SPAN && (
+          <div className="absolute bottom-0 -translate-x-1/2 w-0 h-0 border-x-8 border-x-transparent border-b-[10px] border-b-green-400 drop-shadow-[0_0_6px_rgba(74,222,128,0.8)]" style={{ left: position(targetBearing!) }} />
+        )}
+      </div>
+      <div className="flex items-center gap-2 -mt-1">
+        {targetOffset !== null && targetOffset < -HALF_SPAN && <span className="text-green-400 font-black">◀</span>}
+        <span className={`font-black tabular-nums text-white bg-white/10 border border-white/20 rounded-lg px-2 ${large ? 'text-2xl' : 'text-base md:text-xl'}`}>
+          {Math.round(normalizeDegrees(heading)).toString().padStart(3, '0')}°
+        </span>
+        {targetOffset !== null && targetOffset > HALF_SPAN && <span className="text-green-400 font-black">▶</span>}
+      </div>
+    </div>
+  );
+}
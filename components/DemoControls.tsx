@@ -0,0 +1,72 @@
+import React from 'react';
+import { Play, Pause, Repeat, Square } from 'lucide-react';
+import { DemoScenario, DEMO_SPEEDS } from '../services/demoService.ts';
+import { localize, t } from '../services/i18n.ts';
+
+interface DemoControlsProps {
+  scenario: DemoScenario;
+  duration: number;
+  elapsed: number;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  onSeek: (seconds: number) => void;
+  onTogglePlay: () => void;
+  onSpeed: (speed: number) => void;
+  onToggleLoop: () => void;
+  onStop: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// Transport bar for the demo: play/pause, scrubbing, playback speed and looping
+export default function DemoControls({
+  scenario, duration, elapsed, playing, speed, loop,
+  onSeek, onTogglePlay, onSpeed, onToggleLoop, onStop,
+}: DemoControlsProps) {
+  const buttonClass = 'p-2 rounded-full text-white hover:bg-gray-800 transition-colors';
+
+  return (
+    <div
+      className="flex items-center gap-3 bg-gray-900/90 backdrop-blur-md px-4 py-2 rounded-full border border-white/10 text-white cursor-default"
+      onDoubleClick={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <button type="button" onClick={onTogglePlay} className={buttonClass} title={t(playing ? 'demo.pause' : 'demo.play')}>
+        {playing ? <Pause size={20} /> : <Play size={20} />}
+      </button>
+      <span className="hidden md:inline text-indigo-400 font-bold uppercase tracking-widest text-xs truncate max-w-[10rem]">{localize(scenario.name)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={elapsed}
+        onChange={e => onSeek(parseFloat(e.target.value))}
+        className="w-32 md:w-64 accent-indigo-500"
+      />
+      <span className="font-mono text-xs tabular-nums text-gray-400">{formatTime(elapsed)} / {formatTime(duration)}</span>
+      <div className="flex gap-1">
+        {DEMO_SPEEDS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onSpeed(option)}
+            className={`px-2 py-1 rounded-lg font-bold text-xs transition-all ${speed === option ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+      <button type="button" onClick={onToggleLoop} className={`${buttonClass} ${loop ? 'text-indigo-400' : 'text-gray-500'}`} title={t('demo.loop')}>
+        <Repeat size={20} />
+      </button>
+      <button type="button" onClick={onStop} className={`${buttonClass} text-red-400`} title={t('demo.stopTitle')}>
+        <Square size={20} />
+      </button>
+    </div>
+  );
+}
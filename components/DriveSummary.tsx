@@ -0,0 +1,66 @@
+import React from 'react';
+import { Flag, MapPin } from 'lucide-react';
+import { TripStats, tripWhPerKm } from '../services/tripComputer.ts';
+import { t } from '../services/i18n.ts';
+import { UnitSettings, toDistance, toSpeed, formatEfficiency, distanceLabel, speedLabel, efficiencyLabel } from '../services/units.ts';
+
+interface DriveSummaryProps {
+  trip: TripStats;
+  units: UnitSettings;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = String(totalSeconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+function Stat({ label, value, unit }: { label: string; value: string; unit?: string }) {
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-xs md:text-sm font-bold text-gray-500 uppercase tracking-widest">{label}</span>
+      <span className="text-4xl lg:text-6xl font-black text-gray-200 tabular-nums drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]">
+        {value}
+        {unit && <span className="text-xl lg:text-2xl font-bold text-cyan-300 ml-2">{unit}</span>}
+      </span>
+    </div>
+  );
+}
+
+// Replaces the speed readout for a while after parking at the end of a drive
+export default function DriveSummary({ trip, units }: DriveSummaryProps) {
+  const whPerKm = tripWhPerKm(trip);
+  const batteryUsed = trip.startBattery - trip.endBattery;
+
+  return (
+    <div className="relative flex flex-col items-center justify-center flex-1 gap-6 md:gap-10 animate-in fade-in duration-700">
+      <div className="flex flex-col items-center gap-2">
+        <span className="flex items-center gap-3 text-2xl md:text-4xl font-black text-white uppercase tracking-widest">
+          <Flag className="w-6 h-6 md:w-10 md:h-10 text-cyan-300" />
+          {t('summary.title')}
+        </span>
+        {trip.geofence && (
+          <span className="flex items-center gap-2 text-lg md:text-2xl font-bold text-gray-400">
+            <MapPin className="w-5 h-5 md:w-7 md:h-7 text-cyan-300" />
+            {trip.geofence}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-10 md:gap-x-20 gap-y-6 md:gap-y-10">
+        <Stat label={t('summary.distance')} value={toDistance(trip.distanceKm, units).toFixed(1)} unit={distanceLabel(units)} />
+        <Stat label={t('summary.duration')} value={formatDuration(trip.drivingMs)} />
+        <Stat label={t('summary.maxSpeed')} value={String(Math.round(toSpeed(trip.maxSpeed, units)))} unit={speedLabel(units)} />
+        <Stat label={t('summary.energy')} value={trip.energyKwh.toFixed(1)} unit="kWh" />
+        <Stat label={t('summary.battery')} value={batteryUsed > 0 ? `-${Math.round(batteryUsed)}` : '0'} unit="%" />
+        <Stat
+          label={t('summary.average')}
+          value={formatEfficiency(whPerKm, units)}
+          unit={efficiencyLabel(units)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React from 'react';
+import { Lock, Unlock, MapPin, Navigation } from 'lucide-react';
+import { TeslaData } from '../types.ts';
+import { WidgetId } from '../services/layout.ts';
+import { destinationVector, angleDelta } from '../services/geo.ts';
+import CompassTape from './CompassTape.tsx';
+import TripComputerWidget from './TripComputerWidget.tsx';
+import { TripStats } from '../services/tripComputer.ts';
+import { MessageKey, t } from '../services/i18n.ts';
+import {
+  UnitSettings, toDistance, toElevation, toTemperature, distanceLabel, elevationLabel, temperatureLabel,
+} from '../services/units.ts';
+
+// side: landscape column next to the speed, portrait: row under the speed,
+// info: the smaller readouts of the info row
+export type WidgetVariant = 'side' | 'portrait' | 'info';
+
+export interface WidgetContext {
+  data: TeslaData;
+  units: UnitSettings;
+  powerStale: boolean;
+  trip: TripStats | null;
+  recentConsumption: (number | null)[];   // Wh/km over CONSUMPTION_WINDOWS_KM
+  alertingFacts: Set<string>;             // readouts of these facts are shown in red
+}
+
+interface WidgetDefinition {
+  label: MessageKey;
+  render: (ctx: WidgetContext, variant: WidgetVariant) => React.ReactNode;
+}
+
+const VALUE_CLASSES: Record<WidgetVariant, string> = {
+  side: 'text-6xl lg:text-8xl',
+  portrait: 'text-5xl',
+  info: 'text-2xl md:text-4xl',
+};
+
+const UNIT_CLASSES: Record<WidgetVariant, string> = {
+  side: 'text-xl lg:text-2xl tracking-widest',
+  portrait: 'text-xs -mt-1',
+  info: 'text-xs md:text-sm tracking-widest',
+};
+
+function Stat({ value, unit, variant, alert = false }: { value: React.ReactNode; unit: string; variant: WidgetVariant; alert?: boolean }) {
+  return (
+    <div className={`flex flex-col items-center justify-center text-center shrink-0 ${variant === 'side' ? 'w-48' : ''}`}>
+      <span className={`${VALUE_CLASSES[variant]} font-black tabular-nums transition-colors duration-500 ${alert ? 'text-red-500 drop-shadow-[0_0_20px_rgba(239,68,68,0.8)]' : 'text-gray-200 drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]'}`}>
+        {value}
+      </span>
+      <span className={`${UNIT_CLASSES[variant]} font-bold text-cyan-300 uppercase`}>{unit}</span>
+    </div>
+  );
+}
+
+function Gear({ gear, variant }: { gear: string; variant: WidgetVariant }) {
+  const size = variant === 'side'
+    ? 'text-6xl lg:text-8xl w-28 lg:w-32 px-4'
+    : variant === 'portrait' ? 'text-4xl px-5 backdrop-blur-sm' : 'text-2xl md:text-4xl px-4';
+  return (
+    <div className={`${size} font-black text-white italic tracking-tighter text-center bg-white/5 py-2 rounded-2xl border border-white/10`}>
+      {gear || 'P'}
+    </div>
+  );
+}
+
+// Vertical bar: regen (green) grows down from the centre line, drive power (orange) up
+function PowerBar({ power, stale }: { power: number; stale: boolean }) {
+  return (
+    <div className={`w-4 h-32 md:h-48 bg-gray-900/60 rounded-full overflow-hidden relative border border-white/10 shrink-0 transition-opacity duration-500 ${stale ? 'opacity-30' : ''}`}>
+      <div className="absolute top-1/2 left-0 right-0 h-1 bg-white/30 z-10"></div>
+      <div
+        className={`absolute left-0 right-0 transition-all duration-300 ${power < 0 ? 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.6)]' : 'bg-orange-600 shadow-[0_0_15px_rgba(249,115,22,0.6)]'}`}
+        style={{
+          top: power > 0 ? `${50 - (power / 300) * 50}%` : '50%',
+          bottom: power < 0 ? `${50 + (power / 60) * 50}%` : '50%'
+        }}
+      />
+    </div>
+  );
+}
+
+const powerStat = ({ data, powerStale }: WidgetContext, variant: WidgetVariant) => (
+  <div className={`transition-opacity duration-500 ${powerStale ? 'opacity-30' : ''}`}>
+    <Stat value={Math.round(data.power)} unit="kW" variant={variant} />
+  </div>
+);
+
+/** Everything that can be placed in a layout slot. */
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+  none: { label: 'widget.none', render: () => null },
+  range: {
+    label: 'widget.range',
+    render: ({ data, units, alertingFacts }, variant) => (
+      <Stat
+        value={Math.round(toDistance(data.range, units))}
+        unit={distanceLabel(units)}
+        variant={variant}
+        alert={alertingFacts.has('range')}
+      />
+    ),
+  },
+  battery: {
+    label: 'widget.battery',
+    render: ({ data, alertingFacts }, variant) => <Stat value={Math.round(data.batteryLevel)} unit="%" variant={variant} alert={alertingFacts.has('batteryLevel')} />,
+  },
+  gear: {
+    label: 'widget.gear',
+    render: ({ data }, variant) => <Gear gear={data.gear} variant={variant} />,
+  },
+  power: {
+    label: 'widget.power',
+    render: (ctx, variant) => variant === 'side' ? <PowerBar power={ctx.data.power} stale={ctx.powerStale} /> : powerStat(ctx, variant),
+  },
+  gearPower: {
+    label: 'widget.gearPower',
+    // The bar only fits the landscape column; portrait shows it full-width below the speed
+    render: ({ data, powerStale }, variant) => variant === 'side' ? (
+      <div className="flex items-center justify-center gap-6 shrink-0">
+        <Gear gear={data.gear} variant={variant} />
+        <PowerBar power={data.power} stale={powerStale} />
+      </div>
+    ) : <Gear gear={data.gear} variant={variant} />,
+  },
+  outsideTemp: {
+    label: 'widget.outsideTemp',
+    render: ({ data, units }, variant) => <Stat value={Math.round(toTemperature(data.outsideTemp, units))} unit={t('widget.outside', { unit: temperatureLabel(units) })} variant={variant} />,
+  },
+  insideTemp: {
+    label: 'widget.insideTemp',
+    render: ({ data, units }, variant) => <Stat value={Math.round(toTemperature(data.insideTemp, units))} unit={t('widget.inside', { unit: temperatureLabel(units) })} variant={variant} />,
+  },
+  elevation: {
+    label: 'widget.elevation',
+    render: ({ data, units }, variant) => (
+      <Stat value={Math.round(toElevation(data.elevation, units))} unit={t('widget.elev', { unit: elevationLabel(units) })} variant={variant} />
+    ),
+  },
+  geofence: {
+    label: 'widget.geofence',
+    render: ({ data }, variant) => data.geofence ? (
+      <div className={`flex items-center gap-2 font-bold text-gray-200 ${variant === 'info' ? 'text-lg md:text-2xl' : 'text-2xl lg:text-4xl'}`}>
+        <MapPin className="w-5 h-5 md:w-7 md:h-7 text-cyan-300 shrink-0" />
+        <span className="truncate max-w-[12rem] lg:max-w-xs">{data.geofence}</span>
+      </div>
+    ) : null,
+  },
+  odometer: {
+    label: 'widget.odometer',
+    render: ({ data, units }, variant) => (
+      <Stat value={Math.round(toDistance(data.odometer, units)).toLocaleString()} unit={t('widget.odo', { unit: distanceLabel(units) })} variant={variant} />
+    ),
+  },
+  isLocked: {
+    label: 'widget.isLocked',
+    render: ({ data }, variant) => {
+      const Icon = data.isLocked ? Lock : Unlock;
+      const size = variant === 'side' ? 'w-16 h-16 lg:w-20 lg:h-20' : variant === 'portrait' ? 'w-10 h-10' : 'w-7 h-7 md:w-9 md:h-9';
+      return (
+        <div className="flex flex-col items-center gap-1">
+          <Icon className={`${size} ${data.isLocked ? 'text-gray-200' : 'text-orange-500 drop-shadow-[0_0_10px_rgba(249,115,22,0.8)]'}`} />
+          <span className={`${UNIT_CLASSES[variant]} font-bold text-cyan-300 uppercase`}>{t(data.isLocked ? 'widget.locked' : 'widget.unlocked')}</span>
+        </div>
+      );
+    },
+  },
+  compass: {
+    label: 'widget.compass',
+    render: ({ data }, variant) => (
+      <CompassTape heading={data.heading} targetBearing={destinationVector(data)?.bearing ?? null} large={variant === 'side'} />
+    ),
+  },
+  bearing: {
+    label: 'widget.bearing',
+    // Straight-line pointer to the route's destination, relative to the car's heading
+    render: ({ data, units }, variant) => {
+      const vector = destinationVector(data);
+      if (!vector) return null;
+      const size = variant === 'side' ? 'w-16 h-16 lg:w-20 lg:h-20' : variant === 'portrait' ? 'w-10 h-10' : 'w-7 h-7 md:w-9 md:h-9';
+      const distance = toDistance(vector.distanceKm, units);
+      return (
+        <div className="flex items-center gap-3">
+          {/* The lucide arrow points north-east, hence the -45° */}
+          <Navigation
+            className={`${size} text-green-400 transition-transform duration-500 drop-shadow-[0_0_10px_rgba(74,222,128,0.6)]`}
+            style={{ transform: `rotate(${angleDelta(data.heading, vector.bearing) - 45}deg)` }}
+          />
+          <Stat value={distance < 10 ? distance.toFixed(1) : Math.round(distance)} unit={t('widget.direct', { unit: distanceLabel(units) })} variant={variant} />
+        </div>
+      );
+    },
+  },
+  tripComputer: {
+    label: 'widget.tripComputer',
+    render: ({ trip, recentConsumption, units }, variant) => (
+      <TripComputerWidget trip={trip} consumption={recentConsumption} units={units} large={variant === 'side'} />
+    ),
+  },
+};
+
+export default function HudWidget({ id, ctx, variant }: { id: WidgetId; ctx: WidgetContext; variant: WidgetVariant }) {
+  return <>{(WIDGETS[id] ?? WIDGETS.none).render(ctx, variant)}</>;
+}
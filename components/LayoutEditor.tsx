@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { HudLayout, LayoutPreset, WidgetId, LAYOUT_SLOTS, BUILTIN_PRESETS, sameLayout } from '../services/layout.ts';
+import { WIDGETS } from './HudWidget.tsx';
+import { WIDGET_IDS } from '../shared/settingsSchema.js';
+import { t } from '../services/i18n.ts';
+
+interface LayoutEditorProps {
+  layout: HudLayout;
+  customPresets: LayoutPreset[];
+  onChange: (layout: HudLayout) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+// Settings section: preset picker, one widget dropdown per slot, and saving the result as a preset
+export default function LayoutEditor({ layout, customPresets, onChange, onSavePreset, onDeletePreset }: LayoutEditorProps) {
+  const [presetName, setPresetName] = useState('');
+  const presets = [...BUILTIN_PRESETS, ...customPresets];
+
+  const savePreset = () => {
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="flex flex-col gap-3 shrink-0">
+      <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('layout.title')}</span>
+      <div className="flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+        {presets.map(preset => (
+          <div key={preset.name} className="flex-1 flex">
+            <button
+              type="button"
+              onClick={() => onChange(preset.layout)}
+              className={`flex-1 py-2.5 md:py-4 px-3 rounded-lg font-bold text-xs md:text-base uppercase transition-all ${sameLayout(layout, preset.layout) ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`}
+            >
+              {preset.label ? t(preset.label) : preset.name}
+            </button>
+            {!preset.builtin && (
+              <button
+                type="button"
+                onClick={() => onDeletePreset(preset.name)}
+                className="px-2 text-gray-500 hover:text-red-400"
+                title={t('layout.deletePreset', { name: preset.name })}
+              >
+                <X size={16} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {LAYOUT_SLOTS.map(({ slot, label }) => (
+          <label key={slot} className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+            {t(label)}
+            <select
+              value={layout[slot]}
+              onChange={e => onChange({ ...layout, [slot]: e.target.value as WidgetId })}
+              className="bg-transparent text-right text-white outline-none"
+            >
+              {WIDGET_IDS.map(id => (
+                <option key={id} value={id} className="bg-gray-900">{t(WIDGETS[id].label)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          autoComplete="off"
+          placeholder={t('layout.savePlaceholder')}
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          className="flex-1 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-white outline-none"
+        />
+        <button
+          type="button"
+          onClick={savePreset}
+          disabled={!presetName.trim() || BUILTIN_PRESETS.some(preset => preset.name === presetName.trim())}
+          className="px-6 py-2.5 bg-blue-600 rounded-xl font-bold text-xs md:text-base uppercase text-white hover:bg-blue-500 disabled:opacity-40 transition-all"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
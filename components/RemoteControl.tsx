@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Play, Square, Settings, X, RefreshCw } from 'lucide-react';
+import { HUDMode } from '../types.ts';
+import { AuthInfo, fetchAuthInfo, linkDevice } from '../services/auth.ts';
+import { DEFAULT_THEME_SETTINGS, THEME_MODES } from '../services/theme.ts';
+import { BUILTIN_PRESETS, normalizeLayout, sameLayout } from '../services/layout.ts';
+import { METRIC_UNITS, IMPERIAL_UNITS, normalizeUnits } from '../services/units.ts';
+import { DEFAULT_SPEECH_SETTINGS } from '../services/speech.ts';
+import { LANGUAGES, t } from '../services/i18n.ts';
+import {
+  HudDevice, HudCommand, SyncedSettings, getDeviceName,
+  listHudDevices, fetchDefaultSettings, saveDeviceSettings, saveDefaultSettings, sendHudCommand,
+} from '../services/settingsSync.ts';
+
+const DEFAULTS_TARGET = '__defaults__';
+const POLL_INTERVAL_MS = 5000;
+
+const labelClass = 'text-gray-500 font-bold uppercase tracking-widest text-xs';
+const groupClass = 'flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner';
+const optionClass = (active: boolean) =>
+  `flex-1 py-3 px-3 rounded-lg font-bold text-sm uppercase transition-all ${active ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`;
+const actionClass = 'flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm uppercase border border-gray-800 bg-gray-900 text-gray-300 hover:text-white disabled:opacity-40 transition-all';
+
+// Companion page (/remote) for changing a mounted HUD's settings from another phone
+export default function RemoteControl() {
+  const [authInfo, setAuthInfo] = useState<AuthInfo | null>(null);
+  const [pairingInput, setPairingInput] = useState('');
+  const [devices, setDevices] = useState<HudDevice[]>([]);
+  const [defaults, setDefaults] = useState<SyncedSettings>({});
+  const [target, setTarget] = useState<string>('');
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, defaultSettings] = await Promise.all([listHudDevices(), fetchDefaultSettings()]);
+      setDevices(list);
+      setDefaults(defaultSettings);
+      setTarget(prev => prev || list.find(device => device.online)?.id || DEFAULTS_TARGET);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAuthInfo().then(setAuthInfo);
+  }, []);
+
+  const linked = authInfo !== null && (!authInfo.required || authInfo.authenticated);
+
+  useEffect(() => {
+    if (!linked) return;
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [linked, refresh]);
+
+  const device = devices.find(d => d.id === target);
+  const current: SyncedSettings = device ? device.effective : defaults;
+  // The presets keep the HUD's clock format; devices without stored units show as metric
+  const currentUnits = normalizeUnits(current.units, METRIC_UNITS);
+
+  const save = async (settings: SyncedSettings) => {
+    setError('');
+    try {
+      if (device) await saveDeviceSettings(device.id, settings);
+      else await saveDefaultSettings(settings);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const command = async (cmd: HudCommand) => {
+    if (!device) return;
+    setError('');
+    try {
+      await sendHudCommand(device.id, cmd);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const link = async () => {
+    setError('');
+    if (await linkDevice(pairingInput, `${getDeviceName()} (remote)`)) {
+      setPairingInput('');
+      setAuthInfo(await fetchAuthInfo());
+    } else {
+      setError(t('device.rejected'));
+    }
+  };
+
+  if (authInfo === null) {
+    return <div className="min-h-screen bg-black text-gray-500 flex items-center justify-center font-bold">{t('remote.connecting')}</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white p-5 flex flex-col gap-6 max-w-xl mx-auto">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-black tracking-tight">{t('remote.title')}</h1>
+        {linked && (
+          <button type="button" onClick={refresh} className="p-3 bg-gray-900 rounded-full text-gray-400 hover:text-white"><RefreshCw size={20} /></button>
+        )}
+      </div>
+
+      {!linked ? (
+        <div className="flex flex-col gap-3">
+          <span className={labelClass}>{t('remote.linkPhone')}</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              autoComplete="off"
+              placeholder={t(authInfo.pairing ? 'device.pairingPlaceholder' : 'device.tokenPlaceholder')}
+              value={pairingInput}
+              onChange={e => setPairingInput(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-900 rounded-xl border border-gray-800 px-4 py-3 text-sm font-bold text-white outline-none"
+            />
+            <button
+              type="button"
+              onClick={link}
+              disabled={!pairingInput.trim()}
+              className="px-6 py-3 bg-blue-600 rounded-xl font-bold text-sm uppercase text-white hover:bg-blue-500 disabled:opacity-40 transition-all"
+            >
+              {t('device.link')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.target')}</span>
+            <div className={groupClass}>
+              {devices.map(d => (
+                <button key={d.id} type="button" onClick={() => setTarget(d.id)} className={optionClass(target === d.id)}>
+                  <span className={`inline-block w-2 h-2 rounded-full mr-2 ${d.online ? 'bg-green-400' : 'bg-gray-600'}`} />
+                  {d.name}
+                </button>
+              ))}
+              <button type="button" onClick={() => setTarget(DEFAULTS_TARGET)} className={optionClass(target === DEFAULTS_TARGET)}>
+                {t('remote.allHuds')}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.mode')}</span>
+            <div className={groupClass}>
+              {Object.values(HUDMode).map(mode => (
+                <button key={mode} type="button" onClick={() => save({ mode })} className={optionClass(current.mode === mode)}>{t(`mode.${mode}`)}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.units')}</span>
+            <div className={groupClass}>
+              <button type="button" onClick={() => save({ units: { ...METRIC_UNITS, clock: currentUnits.clock } })} className={optionClass(currentUnits.speed === 'kmh')}>{t('remote.metric')}</button>
+              <button type="button" onClick={() => save({ units: { ...IMPERIAL_UNITS, clock: currentUnits.clock } })} className={optionClass(currentUnits.speed === 'mph')}>{t('remote.imperial')}</button>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.theme')}</span>
+            <div className={groupClass}>
+              {THEME_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => save({ theme: { ...DEFAULT_THEME_SETTINGS, ...current.theme, mode } })}
+                  className={optionClass(current.theme?.mode === mode)}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.language')}</span>
+            <div className={groupClass}>
+              {[{ value: '' as const, label: t('remote.languageAuto') }, ...LANGUAGES].map(({ value, label }) => (
+                <button key={value} type="button" onClick={() => save({ language: value })} className={optionClass((current.language ?? '') === value)}>{label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('speech.title')}</span>
+            <div className={groupClass}>
+              {[true, false].map(enabled => (
+                <button key={String(enabled)} type="button" onClick={() => save({ speech: { ...DEFAULT_SPEECH_SETTINGS, ...current.speech, enabled } })} className={optionClass(!!current.speech?.enabled === enabled)}>{t(enabled ? 'common.on' : 'common.off')}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>{t('remote.layout')}</span>
+            <div className={groupClass}>
+              {BUILTIN_PRESETS.map(preset => (
+                <button
+                  key={preset.name}
+                  type="button"
+                  onClick={() => save({ layout: preset.layout })}
+                  className={optionClass(!!current.layout && sameLayout(normalizeLayout(current.layout), preset.layout))}
+                >
+                  {preset.label ? t(preset.label) : preset.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {device && (
+            <div className="flex flex-col gap-3">
+              <span className={labelClass}>{t(device.online ? 'remote.actions' : 'remote.hudOffline')}</span>
+              <div className="flex gap-2">
+                <button type="button" disabled={!device.online} onClick={() => command('startDemo')} className={actionClass}><Play size={16} /> {t('remote.demo')}</button>
+                <button type="button" disabled={!device.online} onClick={() => command('stopDemo')} className={actionClass}><Square size={16} /> {t('remote.stop')}</button>
+              </div>
+              <div className="flex gap-2">
+                <button type="button" disabled={!device.online} onClick={() => command('openSettings')} className={actionClass}><Settings size={16} /> {t('remote.settings')}</button>
+                <button type="button" disabled={!device.online} onClick={() => command('closeSettings')} className={actionClass}><X size={16} /> {t('remote.close')}</button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <span className="text-red-400 text-sm font-bold">{error}</span>}
+    </div>
+  );
+}
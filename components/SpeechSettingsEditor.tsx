@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { SpeechSettings, SpeechEvent, SPEECH_EVENTS, speechSupported } from '../services/speech.ts';
+import { getLanguage, t } from '../services/i18n.ts';
+
+interface SpeechSettingsEditorProps {
+  settings: SpeechSettings;
+  onChange: (changes: Partial<SpeechSettings>) => void;
+  onTest: () => void;
+}
+
+const labelClass = 'flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400';
+const selectClass = 'min-w-0 max-w-[60%] bg-transparent text-right text-white outline-none';
+const toggleClass = (active: boolean) =>
+  `flex-1 py-2.5 md:py-4 px-3 rounded-lg font-bold text-xs md:text-base uppercase transition-all ${active ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`;
+
+// Settings section: opt-in voice announcements with voice, language, volume, events and quiet hours
+export default function SpeechSettingsEditor({ settings, onChange, onTest }: SpeechSettingsEditorProps) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  if (!speechSupported()) {
+    return (
+      <div className="flex flex-col gap-3 shrink-0">
+        <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('speech.title')}</span>
+        <span className="text-gray-500 text-xs md:text-sm">{t('speech.unsupported')}</span>
+      </div>
+    );
+  }
+
+  const languages = [...new Set(voices.map(v => v.lang))].sort();
+  const lang = settings.lang || getLanguage();
+  const matchingVoices = voices.filter(v => v.lang.toLowerCase().startsWith(lang.split('-')[0].toLowerCase()));
+
+  const toggleEvent = (event: SpeechEvent) => {
+    onChange({ events: { ...settings.events, [event]: !settings.events[event] } });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 shrink-0">
+      <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('speech.title')}</span>
+      <div className="flex gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+        <button type="button" onClick={() => onChange({ enabled: false })} className={toggleClass(!settings.enabled)}>{t('common.off')}</button>
+        <button type="button" onClick={() => onChange({ enabled: true })} className={toggleClass(settings.enabled)}>{t('common.on')}</button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex flex-col md:flex-row gap-2">
+            <label className={labelClass}>
+              {t('speech.language')}
+              <select
+                value={settings.lang}
+                onChange={e => onChange({ lang: e.target.value, voice: '' })}
+                className={selectClass}
+              >
+                <option value="">{t('speech.hudLanguage', { language: getLanguage() })}</option>
+                {languages.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              {t('speech.voice')}
+              <select value={settings.voice} onChange={e => onChange({ voice: e.target.value })} className={selectClass}>
+                <option value="">{t('speech.defaultVoice')}</option>
+                {matchingVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <label className="flex-1 flex items-center gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400">
+              {t('speech.volume')}
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={settings.volume}
+                onChange={e => onChange({ volume: parseInt(e.target.value) })}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-12 text-right text-white tabular-nums">{settings.volume}%</span>
+            </label>
+            <button
+              type="button"
+              onClick={onTest}
+              className="flex items-center gap-2 px-4 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase border border-gray-800 bg-gray-900 text-gray-400 hover:text-white"
+            >
+              <Volume2 size={16} /> {t('common.test')}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 p-1.5 bg-gray-900 rounded-xl border border-gray-800 shadow-inner">
+            {SPEECH_EVENTS.map(({ event, label }) => (
+              <button key={event} type="button" onClick={() => toggleEvent(event)} className={toggleClass(settings.events[event])}>
+                {t(label)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <button
+              type="button"
+              onClick={() => onChange({ quietHours: !settings.quietHours })}
+              className={`md:w-48 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase border border-gray-800 transition-all ${settings.quietHours ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}
+            >
+              {t(settings.quietHours ? 'speech.quietHoursOn' : 'speech.quietHoursOff')}
+            </button>
+            <label className={labelClass}>
+              {t('speech.from')}
+              <input type="time" disabled={!settings.quietHours} value={settings.quietStart} onChange={e => onChange({ quietStart: e.target.value })} className="bg-transparent text-right text-white outline-none disabled:opacity-40" />
+            </label>
+            <label className={labelClass}>
+              {t('speech.until')}
+              <input type="time" disabled={!settings.quietHours} value={settings.quietEnd} onChange={e => onChange({ quietEnd: e.target.value })} className="bg-transparent text-right text-white outline-none disabled:opacity-40" />
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import { X, Plus } from 'lucide-react';
+import { SpeedLimitSettings, GeofenceLimit } from '../services/speedLimits.ts';
+import { UnitSettings, toSpeed, fromSpeed, speedLabel } from '../services/units.ts';
+import { t } from '../services/i18n.ts';
+
+interface SpeedLimitEditorProps {
+  settings: SpeedLimitSettings;
+  units: UnitSettings;
+  currentGeofence: string;
+  onChange: (changes: Partial<SpeedLimitSettings>) => void;
+}
+
+const inputClass = 'w-20 bg-transparent text-right text-white outline-none';
+const labelClass = 'flex-1 flex items-center justify-between gap-3 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-gray-400';
+
+// Settings section: global limit, tolerance and hysteresis, plus per-geofence limits
+export default function SpeedLimitEditor({ settings, units, currentGeofence, onChange }: SpeedLimitEditorProps) {
+  // Speeds are stored in km/h like the MQTT feed; the UI edits them in the selected unit
+  const speedUnit = speedLabel(units);
+  const shown = (kmh: number) => Math.round(toSpeed(kmh, units));
+  const stored = (value: string) => fromSpeed(parseFloat(value) || 0, units);
+
+  const updateRule = (index: number, changes: Partial<GeofenceLimit>) => {
+    onChange({ geofenceLimits: settings.geofenceLimits.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  const addRule = () => {
+    onChange({ geofenceLimits: [...settings.geofenceLimits, { geofence: currentGeofence, limit: fromSpeed(units.speed === 'kmh' ? 30 : 20, units) }] });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ geofenceLimits: settings.geofenceLimits.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 shrink-0">
+      <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('speedLimits.title')}</span>
+      <div className="flex flex-col md:flex-row gap-2">
+        <label className={labelClass}>
+          {t('speedLimits.max', { unit: speedUnit })}
+          <input type="number" step={5} min={0} value={shown(settings.maxSpeed)} onChange={e => onChange({ maxSpeed: stored(e.target.value) })} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          {t('speedLimits.tolerance')}
+          <input type="number" step={1} min={0} value={settings.tolerancePercent} onChange={e => onChange({ tolerancePercent: parseFloat(e.target.value) || 0 })} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          {t('speedLimits.hysteresis', { unit: speedUnit })}
+          <input type="number" step={1} min={0} value={shown(settings.hysteresis)} onChange={e => onChange({ hysteresis: stored(e.target.value) })} className={inputClass} />
+        </label>
+      </div>
+      {settings.geofenceLimits.map((rule, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            type="text"
+            autoComplete="off"
+            placeholder={t('speedLimits.geofencePlaceholder')}
+            value={rule.geofence}
+            onChange={e => updateRule(index, { geofence: e.target.value })}
+            className="flex-1 bg-gray-900 rounded-xl border border-gray-800 px-4 py-2.5 text-xs md:text-base font-bold text-white outline-none"
+          />
+          <label className={`${labelClass} flex-none`}>
+            {speedUnit}
+            <input type="number" step={5} min={0} value={shown(rule.limit)} onChange={e => updateRule(index, { limit: stored(e.target.value) })} className={inputClass} />
+          </label>
+          <button type="button" onClick={() => removeRule(index)} className="px-3 text-gray-500 hover:text-red-400" title={t('speedLimits.removeRule')}>
+            <X size={18} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addRule}
+        className="flex items-center justify-center gap-2 w-full py-2.5 rounded-xl font-bold text-xs md:text-base uppercase transition-all border border-gray-800 bg-gray-900 text-gray-400 hover:text-white"
+      >
+        <Plus size={16} /> {t('speedLimits.add')}{currentGeofence ? ` (${currentGeofence})` : ''}
+      </button>
+    </div>
+  );
+}
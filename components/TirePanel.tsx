@@ -0,0 +1,37 @@
+import React from 'react';
+import { TireStatus } from '../services/tpms.ts';
+import { PressureUnit, formatPressure } from '../services/units.ts';
+
+interface TirePanelProps {
+  tires: TireStatus[];
+  unit: PressureUnit;
+}
+
+// Compact four-corner tire diagram: pressures sit around a stylised car body
+export default function TirePanel({ tires, unit }: TirePanelProps) {
+  const renderTire = (tire: TireStatus) => {
+    const alert = tire.low || tire.deviating;
+    return (
+      <div key={tire.position} className="flex flex-col items-center w-14">
+        <span className={`text-xl lg:text-2xl font-black tabular-nums transition-colors duration-500 ${alert ? 'text-red-500 drop-shadow-[0_0_10px_rgba(239,68,68,0.8)] animate-pulse' : 'text-gray-200'}`}>
+          {tire.pressure > 0 ? formatPressure(tire.pressure, unit) : '--'}
+        </span>
+      </div>
+    );
+  };
+
+  const [frontLeft, frontRight, rearLeft, rearRight] = tires;
+
+  return (
+    <div className="flex flex-col items-center gap-1 bg-black/20 backdrop-blur-sm px-3 py-2 rounded-2xl border border-white/5">
+      <div className="grid grid-cols-3 grid-rows-2 items-center justify-items-center gap-x-2 gap-y-3">
+        {renderTire(frontLeft)}
+        <div className="row-span-2 w-8 h-full rounded-t-2xl rounded-b-lg border-2 border-white/20" />
+        {renderTire(frontRight)}
+        {renderTire(rearLeft)}
+        {renderTire(rearRight)}
+      </div>
+      <span className="text-[10px] font-bold text-cyan-300 uppercase tracking-widest">{unit}</span>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { TripStats, CONSUMPTION_WINDOWS_KM, averageSpeed } from '../services/tripComputer.ts';
+import { UnitSettings, toDistance, toSpeed, formatEfficiency, distanceLabel, speedLabel, efficiencyLabel } from '../services/units.ts';
+
+interface TripComputerWidgetProps {
+  trip: TripStats | null;
+  consumption: (number | null)[];   // Wh/km per CONSUMPTION_WINDOWS_KM entry
+  units: UnitSettings;
+  large?: boolean;
+}
+
+// Rolling consumption over the last 1/5/15 km above the current trip's totals
+export default function TripComputerWidget({ trip, consumption, units, large = false }: TripComputerWidgetProps) {
+  const distUnit = distanceLabel(units);
+
+  return (
+    <div className="flex flex-col items-center gap-1 shrink-0">
+      <div className="flex items-end gap-4">
+        {CONSUMPTION_WINDOWS_KM.map((km, i) => (
+          <div key={km} className="flex flex-col items-center">
+            <span className={`font-black tabular-nums text-gray-200 drop-shadow-[0_0_10px_rgba(255,255,255,0.3)] ${large ? 'text-4xl lg:text-5xl' : 'text-xl md:text-3xl'}`}>
+              {formatEfficiency(consumption[i], units)}
+            </span>
+            <span className="text-[10px] md:text-xs font-bold text-cyan-300 uppercase tracking-widest">{Number(toDistance(km, units).toFixed(1))} {distUnit}</span>
+          </div>
+        ))}
+        <span className="text-xs md:text-sm font-bold text-cyan-300 uppercase mb-4">{efficiencyLabel(units)}</span>
+      </div>
+      {trip && (
+        <span className={`font-bold tabular-nums text-gray-400 ${large ? 'text-lg' : 'text-xs md:text-base'}`}>
+          {toDistance(trip.distanceKm, units).toFixed(1)} {distUnit} · {Math.round(toSpeed(averageSpeed(trip), units))} {speedLabel(units)} · {trip.energyKwh.toFixed(1)} kWh
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { UnitSettings, UNIT_OPTIONS, defaultUnits, sameUnits } from '../services/units.ts';
+import { MessageKey, t } from '../services/i18n.ts';
+
+interface UnitSettingsEditorProps {
+  units: UnitSettings;
+  onChange: (changes: Partial<UnitSettings>) => void;
+}
+
+const DIMENSIONS: { key: keyof UnitSettings; label: MessageKey }[] = [
+  { key: 'speed', label: 'units.speed' },
+  { key: 'distance', label: 'units.distance' },
+  { key: 'temperature', label: 'units.temperature' },
+  { key: 'pressure', label: 'units.pressure' },
+  { key: 'efficiency', label: 'units.efficiency' },
+  { key: 'clock', label: 'units.clock' },
+];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 py-2 md:py-3 px-2 rounded-lg font-bold text-xs md:text-base transition-all ${active ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20' : 'text-gray-400 hover:text-white'}`;
+
+// Settings section: one choice per measured quantity, plus a reset to what the browser's locale suggests
+export default function UnitSettingsEditor({ units, onChange }: UnitSettingsEditorProps) {
+  const localeDefaults = defaultUnits();
+
+  return (
+    <div className="flex flex-col gap-3 shrink-0">
+      <span className="text-gray-500 font-bold uppercase tracking-widest text-xs md:text-sm">{t('units.title')}</span>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {DIMENSIONS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-3 bg-gray-900 rounded-xl border border-gray-800 p-1.5 pl-4 shadow-inner">
+            <span className="w-24 md:w-32 shrink-0 text-xs md:text-base font-bold text-gray-400">{t(label)}</span>
+            <div className="flex-1 flex gap-1">
+              {UNIT_OPTIONS[key].map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => onChange({ [key]: option.value })}
+                  className={toggleClass(units[key] === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(localeDefaults)}
+        disabled={sameUnits(units, localeDefaults)}
+        className="flex items-center justify-center gap-2 py-2.5 rounded-xl font-bold text-xs md:text-base uppercase transition-all border border-gray-800 bg-gray-900 text-gray-400 hover:text-white disabled:opacity-40"
+      >
+        <RotateCcw size={16} /> {t('units.localeDefaults', { locale: navigator.language })}
+      </button>
+    </div>
+  );
+}
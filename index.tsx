@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import RemoteControl from './components/RemoteControl.tsx';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,11 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
+// The remote-control page ships in the same bundle, the proxy serves index.html for every path
+const isRemote = window.location.pathname.replace(/\/$/, '') === '/remote';
+
 root.render(
   <React.StrictMode>
-    <App />
+    {isRemote ? <RemoteControl /> : <App />}
   </React.StrictMode>
 );
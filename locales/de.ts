@@ -0,0 +1,333 @@
+import { Messages } from './en.ts';
+
+const de: Messages = {
+  'common.on': 'An',
+  'common.off': 'Aus',
+  'common.save': 'Speichern',
+  'common.test': 'Test',
+  'common.defaults': 'Standard',
+  'common.minutes': 'min',
+
+  'language.title': 'Sprache',
+  'language.auto': 'Automatisch ({language})',
+
+  'status.demo': 'Demo: {scene} - {remaining}',
+  'status.paused': 'pausiert',
+  'status.replay': 'Wiedergabe: {kind} {time} - {speed}x',
+  'status.searching': 'Suche Fahrzeug...',
+  'status.carAsleep': 'Auto schläft · {age}',
+  'status.carOffline': 'Auto offline · {age}',
+  'status.pairingRequired': 'Kopplung erforderlich',
+  'status.linkStale': 'Verbindung veraltet',
+  'status.reconnecting': 'Neuer Versuch in {seconds}s',
+
+  'banner.checkTires': 'Reifen prüfen: {tires} {unit}',
+  'banner.arrival': 'Ankunft {soc}% · Reserve {reserve}%',
+  'tire.front_left': 'VL',
+  'tire.front_right': 'VR',
+  'tire.rear_left': 'HL',
+  'tire.rear_right': 'HR',
+
+  'hud.limit': 'Limit {limit}',
+  'hud.lastUpdate': 'Letztes Update vor {age}',
+  'nav.eta': 'Ankunft: {time}',
+
+  'compass.N': 'N',
+  'compass.NE': 'NO',
+  'compass.E': 'O',
+  'compass.SE': 'SO',
+  'compass.S': 'S',
+  'compass.SW': 'SW',
+  'compass.W': 'W',
+  'compass.NW': 'NW',
+
+  'widget.none': 'Leer',
+  'widget.range': 'Reichweite',
+  'widget.battery': 'Akku',
+  'widget.gear': 'Fahrstufe',
+  'widget.power': 'Leistung',
+  'widget.gearPower': 'Fahrstufe & Leistungsbalken',
+  'widget.outsideTemp': 'Außentemperatur',
+  'widget.insideTemp': 'Innentemperatur',
+  'widget.elevation': 'Höhe',
+  'widget.geofence': 'Geofence',
+  'widget.odometer': 'Kilometerstand',
+  'widget.isLocked': 'Verriegelung',
+  'widget.compass': 'Kompass',
+  'widget.bearing': 'Richtung zum Ziel',
+  'widget.tripComputer': 'Bordcomputer',
+  'widget.outside': '{unit} außen',
+  'widget.inside': '{unit} innen',
+  'widget.elev': '{unit} Höhe',
+  'widget.odo': '{unit} gesamt',
+  'widget.direct': '{unit} Luftlinie',
+  'widget.locked': 'Verriegelt',
+  'widget.unlocked': 'Entriegelt',
+
+  'summary.title': 'Fahrt beendet',
+  'summary.distance': 'Strecke',
+  'summary.duration': 'Dauer',
+  'summary.maxSpeed': 'Höchstgeschw.',
+  'summary.energy': 'Energie',
+  'summary.battery': 'Akku',
+  'summary.average': 'Durchschnitt',
+
+  'charging.title': 'Laden',
+  'charging.doneAt': 'Fertig um',
+  'charging.added': 'Geladen',
+
+  'settings.title': 'Einstellungen',
+  'settings.subtitle': 'Anzeige und Datenverbindung einrichten.',
+  'settings.dismiss': 'Schließen',
+  'settings.relink': 'Datenfeed neu verbinden',
+
+  'units.title': 'Maßeinheiten',
+  'units.speed': 'Geschwindigkeit',
+  'units.distance': 'Entfernung',
+  'units.temperature': 'Temperatur',
+  'units.pressure': 'Reifendruck',
+  'units.efficiency': 'Verbrauch',
+  'units.clock': 'Uhrzeit',
+  'units.localeDefaults': 'Standard für {locale}',
+
+  'layout.title': 'HUD-Layout',
+  'layout.left': 'Links',
+  'layout.right': 'Rechts',
+  'layout.info1': 'Info 1',
+  'layout.info2': 'Info 2',
+  'layout.info3': 'Info 3',
+  'layout.deletePreset': 'Vorlage {name} löschen',
+  'layout.savePlaceholder': 'Aktuelles Layout speichern als…',
+  'layout.preset.default': 'Standard',
+  'layout.preset.minimal': 'Minimal',
+  'layout.preset.touring': 'Reise',
+  'layout.preset.commute': 'Pendeln',
+
+  'tpms.title': 'Reifendruck',
+  'tpms.warnBelow': 'Warnen unter ({unit})',
+  'tpms.maxDifference': 'Max. Abweichung ({unit})',
+
+  'stale.title': 'Veraltete Daten',
+  'stale.dimAfter': 'Werte abdunkeln älter als (Sekunden)',
+
+  'theme.title': 'Anzeigedesign',
+  'theme.sun': 'Auto (Sonne)',
+  'theme.schedule': 'Zeitplan',
+  'theme.day': 'Tag',
+  'theme.night': 'Nacht',
+  'theme.contrast': 'Kontrast',
+  'theme.dayFrom': 'Tag ab',
+  'theme.nightFrom': 'Nacht ab',
+  'theme.noPosition': 'Noch keine Fahrzeugposition - der Zeitplan oben gilt.',
+  'theme.midnightSun': 'Mitternachtssonne an der Fahrzeugposition - Tagmodus bleibt aktiv.',
+  'theme.polarNight': 'Polarnacht an der Fahrzeugposition - Nachtmodus bleibt aktiv.',
+  'theme.sunTimes': 'Sonnenaufgang {sunrise} · Sonnenuntergang {sunset} an der Fahrzeugposition.',
+  'theme.dimming': 'Abdunkeln (%)',
+
+  'calibration.title': 'Windschutzscheiben-Kalibrierung',
+  'calibration.calibrate': 'Kalibrieren · {profile}',
+  'calibration.active': '(aktiv)',
+  'calibration.hint': 'Die Eckpunkte ziehen, bis die Spiegelung des Rasters rechteckig aussieht.',
+  'calibration.scale': 'Größe',
+  'calibration.offsetX': 'Versatz X',
+  'calibration.offsetY': 'Versatz Y',
+  'calibration.rotation': 'Drehung',
+  'calibration.deleteProfile': 'Profil {name} löschen',
+  'calibration.profilePlaceholder': 'Neues Profil (z. B. Model 3 Armaturenbrett)',
+  'calibration.reset': 'Zurücksetzen',
+  'calibration.done': 'Fertig',
+
+  'arrival.title': 'Ankunftsprognose',
+  'arrival.reserve': 'Reserve (%)',
+  'arrival.capacity': 'Nutzbare Kapazität (kWh)',
+
+  'driveSummary.title': 'Fahrtzusammenfassung',
+  'driveSummary.showFor': 'Nach dem Parken anzeigen für (Sekunden, 0 = aus)',
+
+  'speedLimits.title': 'Tempolimits',
+  'speedLimits.max': 'Max. ({unit}, 0 = aus)',
+  'speedLimits.tolerance': 'Toleranz (%)',
+  'speedLimits.hysteresis': 'Hysterese ({unit})',
+  'speedLimits.geofencePlaceholder': 'Geofence-Name (z. B. Schulzone)',
+  'speedLimits.removeRule': 'Regel entfernen',
+  'speedLimits.add': 'Geofence-Limit hinzufügen',
+
+  'alerts.title': 'Warnungen',
+  'alerts.chime': 'Signalton',
+  'alerts.enableRule': 'Regel aktivieren',
+  'alerts.disableRule': 'Regel deaktivieren',
+  'alerts.proxy': 'Proxy',
+  'alerts.and': 'und',
+  'alerts.ruleSummary': '{conditions} · alle {minutes} min',
+  'alerts.muteChime': 'Signalton aus',
+  'alerts.playChime': 'Signalton an',
+  'alerts.removeRule': 'Regel entfernen',
+  'alerts.namePlaceholder': 'Neue Warnung (z. B. Kalter Innenraum)',
+  'alerts.every': 'alle',
+  'alerts.add': 'Warnung hinzufügen',
+  'severity.info': 'Info',
+  'severity.warning': 'Warnung',
+  'severity.critical': 'kritisch',
+  'alert.lowBattery.name': 'Akku niedrig',
+  'alert.lowBattery.message': 'Akku {batteryLevel}%',
+  'alert.unlockedDriving.name': 'Entriegelt während der Fahrt',
+  'alert.unlockedDriving.message': 'Türen entriegelt',
+  'alert.iceRisk.name': 'Glättegefahr',
+  'alert.iceRisk.message': 'Glättegefahr · {outsideTemp} außen',
+  'alert.chargeLimit.name': 'Ladelimit erreicht',
+  'alert.chargeLimit.message': 'Geladen auf {batteryLevel}%',
+  'alert.offlineDriving.name': 'Auto offline während der Fahrt',
+  'alert.offlineDriving.message': 'Auto offline · keine aktuellen Daten',
+
+  'speech.title': 'Sprachansagen',
+  'speech.unsupported': 'Dieser Browser unterstützt keine Sprachausgabe.',
+  'speech.language': 'Sprache',
+  'speech.hudLanguage': 'HUD-Sprache ({language})',
+  'speech.voice': 'Stimme',
+  'speech.defaultVoice': 'Standard',
+  'speech.volume': 'Lautstärke',
+  'speech.quietHoursOn': 'Ruhezeit an',
+  'speech.quietHoursOff': 'Ruhezeit aus',
+  'speech.from': 'Von',
+  'speech.until': 'Bis',
+  'speech.event.destination': 'Neues Ziel',
+  'speech.event.etaShift': 'Ankunftszeit ändert sich',
+  'speech.event.arrivalLow': 'Niedriger Akku bei Ankunft',
+  'speech.event.charging': 'Laden beendet',
+  'speech.event.alerts': 'Warnungen',
+  'speech.preview': 'Sprachansagen sind eingeschaltet.',
+  'speech.navigating': 'Navigation nach {destination}.',
+  'speech.navigatingArriving': 'Navigation nach {destination}, Ankunft um {time}.',
+  'speech.etaLater': 'Ankunft {minutes} Minuten später.',
+  'speech.etaLaterAt': 'Ankunft {minutes} Minuten später, jetzt um {time}.',
+  'speech.etaEarlier': 'Ankunft {minutes} Minuten früher.',
+  'speech.etaEarlierAt': 'Ankunft {minutes} Minuten früher, jetzt um {time}.',
+  'speech.arrivalLow': 'Akku bei Ankunft {soc} Prozent, unter deiner Reserve.',
+  'speech.chargeLimit': 'Ladelimit von {soc} Prozent erreicht.',
+  'speech.chargingStopped': 'Laden bei {soc} Prozent beendet.',
+
+  'device.title': 'Gerätezugang',
+  'device.linked': 'Dieses Gerät ist mit dem Proxy gekoppelt.',
+  'device.forget': 'Entkoppeln',
+  'device.pairingPlaceholder': 'Kopplungscode aus dem Server-Log',
+  'device.tokenPlaceholder': 'Zugangstoken',
+  'device.link': 'Koppeln',
+  'device.rejected': 'Code oder Token wurde nicht akzeptiert.',
+  'device.unreachable': 'Proxy nicht erreichbar.',
+
+  'proxy.title': 'Proxy-Einstellungen',
+  'proxy.saveDevice': 'Für dieses HUD speichern',
+  'proxy.saveDefaults': 'Als Standard speichern',
+  'proxy.savedDevice': 'Für dieses HUD gespeichert.',
+  'proxy.savedDefaults': 'Als Standard für alle HUDs gespeichert.',
+  'proxy.saveFailed': 'Einstellungen konnten nicht auf dem Proxy gespeichert werden.',
+  'proxy.remoteHint': '{url} auf einem anderen Telefon öffnen, um dieses HUD ({name}) zu steuern.',
+
+  'vehicle.title': 'Fahrzeug',
+  'vehicle.car': 'Auto {id}',
+
+  'demo.title': 'Test & Simulation',
+  'demo.start': 'Demo-Sequenz starten',
+  'demo.stop': 'Demo-Sequenz beenden',
+  'demo.play': 'Abspielen',
+  'demo.pause': 'Pause',
+  'demo.loop': 'Wiederholen',
+  'demo.stopTitle': 'Demo beenden',
+  'demo.builtin.name': 'Stadt & Autobahn',
+  'demo.builtin.description': 'Eingebaute 30-s-Schleife: Parken, Stadt, Navigation, Rekuperation und Rückwärtsfahren',
+  'demo.scene.parkedFull': 'Geparkt – Akku voll',
+  'demo.scene.city': 'Stadtverkehr',
+  'demo.scene.cityAccelerating': 'Stadtverkehr – Beschleunigen',
+  'demo.scene.highway': 'Navigation – Autobahn',
+  'demo.scene.cruising': 'Navigation – Reisetempo',
+  'demo.scene.regen': 'Rekuperation',
+  'demo.scene.lowBattery': 'Akku niedrig',
+  'demo.scene.reversing': 'Rückwärtsfahren',
+  'demo.scene.parked': 'Geparkt',
+
+  'scenario.lowBatteryArrival.name': 'Ankunft mit leerem Akku',
+  'scenario.lowBatteryArrival.description': 'Lange Navigationsetappe, die mit etwa 3 % ankommt',
+  'scenario.lowBatteryArrival.highwayLow': 'Autobahn – Akku niedrig',
+  'scenario.lowBatteryArrival.slowingDown': 'Langsamer fahren, um Energie zu sparen',
+  'scenario.lowBatteryArrival.traffic': 'Stau voraus',
+  'scenario.lowBatteryArrival.arrivingInTown': 'Ankunft in der Stadt',
+  'scenario.lowBatteryArrival.arrived': 'Angekommen – 4 %',
+  'scenario.superchargerStop.name': 'Supercharger-Stopp',
+  'scenario.superchargerStop.description': 'Ankunft mit 12 %, Laden mit 150 kW abfallend auf 90 kW bis 60 %, dann abstecken und weiterfahren',
+  'scenario.superchargerStop.arriving': 'Ankunft am Supercharger',
+  'scenario.superchargerStop.pluggedIn': 'Angesteckt',
+  'scenario.superchargerStop.peakPower': 'Laden mit Spitzenleistung',
+  'scenario.superchargerStop.tapering': 'Laden – Leistung sinkt',
+  'scenario.superchargerStop.unplugged': 'Abgesteckt',
+  'scenario.superchargerStop.backOnRoad': 'Wieder unterwegs',
+  'scenario.winterTrip.name': 'Winterfahrt',
+  'scenario.winterTrip.description': 'Kaltstart bei -8 °C, Vorklimatisierung und eine verschneite Autobahnfahrt mit hohem Verbrauch',
+  'scenario.winterTrip.preconditioning': 'Geparkt – Vorklimatisierung',
+  'scenario.winterTrip.cabinWarm': 'Innenraum warm – bereit',
+  'scenario.winterTrip.pullingAway': 'Navigation gesetzt – Anfahren',
+  'scenario.winterTrip.snowyRoad': 'Verschneite Landstraße',
+  'scenario.winterTrip.highwayCold': 'Autobahn in der Kälte',
+  'scenario.winterTrip.climbing': 'Bergauf in die Hügel',
+  'scenario.winterTrip.arrived': 'Angekommen',
+
+  'replay.title': 'Aufgezeichnete Fahrten',
+  'replay.stop': 'Wiedergabe beenden',
+  'recording.drive': 'Fahrt',
+  'recording.charge': 'Ladung',
+
+  'log.title': 'Verbindungsstatus',
+  'log.empty': 'Noch keine Verbindung aufgebaut...',
+  'log.pairingRequired': 'System: Der Proxy verlangt eine Kopplung - Code aus dem Server-Log in den Einstellungen eingeben.',
+  'log.serverConfig': 'System: Serverumgebung geladen (Präfix: {prefix}, Auto: {carId})',
+  'log.serverConfigFailed': 'System: Serverkonfiguration nicht abrufbar, lokale Standardwerte werden genutzt.',
+  'log.carsFailed': 'System: Fahrzeugliste nicht abrufbar.',
+  'log.deviceLinked': 'System: Gerät mit dem Proxy gekoppelt.',
+  'log.settingsApplied': 'System: Einstellungen vom Proxy übernommen.',
+  'log.settingRejected': 'System: Ungültige Einstellung {key} vom Proxy ignoriert.',
+  'log.remoteCommand': 'System: Fernbefehl {command}',
+  'log.wakeLockFailed': 'Wake Lock: Fehlgeschlagen',
+  'log.replayStarted': 'Wiedergabe: {id} mit {speed}x',
+  'log.replayFinished': 'Wiedergabe: {id} beendet',
+  'log.alert': 'Warnung: {name} - {message}',
+  'log.replayFailed': 'Wiedergabe: {error}',
+  'log.alertRuleSkipped': 'Warnungen: Proxy-Regel übersprungen - {error}',
+  'log.scenarioSkipped': 'Demo: Szenario übersprungen - {error}',
+
+  'mqtt.switchedCar': 'Zu Auto {carId} gewechselt',
+  'mqtt.retrying': 'Neuer Versuch in {seconds}s (Versuch {attempt})...',
+  'mqtt.heartbeatLost': '⚠️ Kein Heartbeat vom Proxy, Verbindung ist veraltet',
+  'mqtt.connecting': 'Verbinde: {url}',
+  'mqtt.linked': '✅ Mit dem HUD-Proxy-Server verbunden',
+  'mqtt.status': 'Status: {message}',
+  'mqtt.missedUpdates': 'Updates verpasst (seq {from} → {to}), fordere Neusynchronisation an',
+  'mqtt.disconnected': '❌ Proxy getrennt (Code: {code})',
+  'mqtt.socketError': '⚠️ WebSocket-Fehler (Reverse-Proxy-Zuordnung für /ws prüfen)',
+  'mqtt.connectionError': '🔥 Verbindungsfehler: {error}',
+  'mqtt.disconnecting': 'Trenne Proxy...',
+
+  'mode.NORMAL': 'Normal',
+  'mode.MIRROR': 'Gespiegelt',
+  'mode.FLIPPED': 'Gedreht',
+
+  'remote.connecting': 'Verbinde mit Proxy…',
+  'remote.title': 'HUD-Fernbedienung',
+  'remote.linkPhone': 'Dieses Telefon koppeln',
+  'remote.target': 'Ziel',
+  'remote.allHuds': 'Alle HUDs (Standard)',
+  'remote.mode': 'Anzeigemodus',
+  'remote.units': 'Einheiten',
+  'remote.metric': 'Metrisch',
+  'remote.imperial': 'Imperial',
+  'remote.theme': 'Design',
+  'remote.language': 'Sprache',
+  'remote.languageAuto': 'Automatisch',
+  'remote.layout': 'Layout',
+  'remote.actions': 'Aktionen',
+  'remote.hudOffline': 'Aktionen (HUD offline)',
+  'remote.demo': 'Demo',
+  'remote.stop': 'Stopp',
+  'remote.settings': 'Einstellungen',
+  'remote.close': 'Schließen',
+};
+
+export default de;
@@ -0,0 +1,335 @@
+// English: the reference catalog. Other languages must define every key
+// (enforced by the `Messages` type); `{name}` marks a parameter.
+const en = {
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.save': 'Save',
+  'common.test': 'Test',
+  'common.defaults': 'Defaults',
+  'common.minutes': 'min',
+
+  'language.title': 'Language',
+  'language.auto': 'Auto ({language})',
+
+  'status.demo': 'Demo: {scene} - {remaining}',
+  'status.paused': 'paused',
+  'status.replay': 'Replay: {kind} {time} - {speed}x',
+  'status.searching': 'Searching for Vehicle...',
+  'status.carAsleep': 'Car asleep · {age}',
+  'status.carOffline': 'Car offline · {age}',
+  'status.pairingRequired': 'Pairing required',
+  'status.linkStale': 'Link stale',
+  'status.reconnecting': 'Reconnecting in {seconds}s',
+
+  'banner.checkTires': 'Check Tires: {tires} {unit}',
+  'banner.arrival': 'Arrival {soc}% · Reserve {reserve}%',
+  'tire.front_left': 'FL',
+  'tire.front_right': 'FR',
+  'tire.rear_left': 'RL',
+  'tire.rear_right': 'RR',
+
+  'hud.limit': 'Limit {limit}',
+  'hud.lastUpdate': 'Last update {age} ago',
+  'nav.eta': 'ETA: {time}',
+
+  'compass.N': 'N',
+  'compass.NE': 'NE',
+  'compass.E': 'E',
+  'compass.SE': 'SE',
+  'compass.S': 'S',
+  'compass.SW': 'SW',
+  'compass.W': 'W',
+  'compass.NW': 'NW',
+
+  'widget.none': 'Empty',
+  'widget.range': 'Range',
+  'widget.battery': 'Battery',
+  'widget.gear': 'Gear',
+  'widget.power': 'Power',
+  'widget.gearPower': 'Gear & power bar',
+  'widget.outsideTemp': 'Outside temp',
+  'widget.insideTemp': 'Inside temp',
+  'widget.elevation': 'Elevation',
+  'widget.geofence': 'Geofence',
+  'widget.odometer': 'Odometer',
+  'widget.isLocked': 'Lock state',
+  'widget.compass': 'Compass',
+  'widget.bearing': 'Destination bearing',
+  'widget.tripComputer': 'Trip computer',
+  'widget.outside': '{unit} out',
+  'widget.inside': '{unit} in',
+  'widget.elev': '{unit} elev',
+  'widget.odo': '{unit} odo',
+  'widget.direct': '{unit} direct',
+  'widget.locked': 'Locked',
+  'widget.unlocked': 'Unlocked',
+
+  'summary.title': 'Drive complete',
+  'summary.distance': 'Distance',
+  'summary.duration': 'Duration',
+  'summary.maxSpeed': 'Max speed',
+  'summary.energy': 'Energy',
+  'summary.battery': 'Battery',
+  'summary.average': 'Average',
+
+  'charging.title': 'Charging',
+  'charging.doneAt': 'Done at',
+  'charging.added': 'Added',
+
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Configure display and data connection preferences.',
+  'settings.dismiss': 'Dismiss',
+  'settings.relink': 'Re-link data feed',
+
+  'units.title': 'Measurement Units',
+  'units.speed': 'Speed',
+  'units.distance': 'Distance',
+  'units.temperature': 'Temperature',
+  'units.pressure': 'Tire pressure',
+  'units.efficiency': 'Efficiency',
+  'units.clock': 'Clock',
+  'units.localeDefaults': 'Defaults for {locale}',
+
+  'layout.title': 'HUD Layout',
+  'layout.left': 'Left',
+  'layout.right': 'Right',
+  'layout.info1': 'Info 1',
+  'layout.info2': 'Info 2',
+  'layout.info3': 'Info 3',
+  'layout.deletePreset': 'Delete preset {name}',
+  'layout.savePlaceholder': 'Save current layout as…',
+  'layout.preset.default': 'Default',
+  'layout.preset.minimal': 'Minimal',
+  'layout.preset.touring': 'Touring',
+  'layout.preset.commute': 'Commute',
+
+  'tpms.title': 'Tire Pressure',
+  'tpms.warnBelow': 'Warn below ({unit})',
+  'tpms.maxDifference': 'Max difference ({unit})',
+
+  'stale.title': 'Stale Data',
+  'stale.dimAfter': 'Dim values older than (seconds)',
+
+  'theme.title': 'Display Theme',
+  'theme.sun': 'Auto (sun)',
+  'theme.schedule': 'Schedule',
+  'theme.day': 'Day',
+  'theme.night': 'Night',
+  'theme.contrast': 'Contrast',
+  'theme.dayFrom': 'Day from',
+  'theme.nightFrom': 'Night from',
+  'theme.noPosition': 'No car position yet - following the schedule above.',
+  'theme.midnightSun': 'Midnight sun at the car\'s position - staying in day mode.',
+  'theme.polarNight': 'Polar night at the car\'s position - staying in night mode.',
+  'theme.sunTimes': 'Sunrise {sunrise} · Sunset {sunset} at the car\'s position.',
+  'theme.dimming': 'Dimming (%)',
+
+  'calibration.title': 'Windshield Calibration',
+  'calibration.calibrate': 'Calibrate · {profile}',
+  'calibration.active': '(active)',
+  'calibration.hint': 'Drag the corner handles until the grid\'s reflection looks rectangular.',
+  'calibration.scale': 'Scale',
+  'calibration.offsetX': 'Offset X',
+  'calibration.offsetY': 'Offset Y',
+  'calibration.rotation': 'Rotation',
+  'calibration.deleteProfile': 'Delete profile {name}',
+  'calibration.profilePlaceholder': 'New profile (e.g. Model 3 dash)',
+  'calibration.reset': 'Reset',
+  'calibration.done': 'Done',
+
+  'arrival.title': 'Arrival Forecast',
+  'arrival.reserve': 'Reserve (%)',
+  'arrival.capacity': 'Usable battery (kWh)',
+
+  'driveSummary.title': 'Drive Summary',
+  'driveSummary.showFor': 'Show after parking for (seconds, 0 = off)',
+
+  'speedLimits.title': 'Speed Limits',
+  'speedLimits.max': 'Max ({unit}, 0 = off)',
+  'speedLimits.tolerance': 'Tolerance (%)',
+  'speedLimits.hysteresis': 'Hysteresis ({unit})',
+  'speedLimits.geofencePlaceholder': 'Geofence name (e.g. School zone)',
+  'speedLimits.removeRule': 'Remove rule',
+  'speedLimits.add': 'Add geofence limit',
+
+  'alerts.title': 'Alerts',
+  'alerts.chime': 'Chime',
+  'alerts.enableRule': 'Enable rule',
+  'alerts.disableRule': 'Disable rule',
+  'alerts.proxy': 'proxy',
+  'alerts.and': 'and',
+  'alerts.ruleSummary': '{conditions} · every {minutes} min',
+  'alerts.muteChime': 'Mute chime',
+  'alerts.playChime': 'Play chime',
+  'alerts.removeRule': 'Remove rule',
+  'alerts.namePlaceholder': 'New alert (e.g. Cold cabin)',
+  'alerts.every': 'every',
+  'alerts.add': 'Add alert',
+  'severity.info': 'info',
+  'severity.warning': 'warning',
+  'severity.critical': 'critical',
+  'alert.lowBattery.name': 'Low battery',
+  'alert.lowBattery.message': 'Battery {batteryLevel}%',
+  'alert.unlockedDriving.name': 'Unlocked while driving',
+  'alert.unlockedDriving.message': 'Doors unlocked',
+  'alert.iceRisk.name': 'Ice risk',
+  'alert.iceRisk.message': 'Ice risk · {outsideTemp} outside',
+  'alert.chargeLimit.name': 'Charge limit reached',
+  'alert.chargeLimit.message': 'Charged to {batteryLevel}%',
+  'alert.offlineDriving.name': 'Car offline while driving',
+  'alert.offlineDriving.message': 'Car offline · data not updating',
+
+  'speech.title': 'Voice Announcements',
+  'speech.unsupported': 'This browser does not support speech output.',
+  'speech.language': 'Language',
+  'speech.hudLanguage': 'HUD language ({language})',
+  'speech.voice': 'Voice',
+  'speech.defaultVoice': 'Default',
+  'speech.volume': 'Volume',
+  'speech.quietHoursOn': 'Quiet hours on',
+  'speech.quietHoursOff': 'Quiet hours off',
+  'speech.from': 'From',
+  'speech.until': 'Until',
+  'speech.event.destination': 'New destination',
+  'speech.event.etaShift': 'ETA changes',
+  'speech.event.arrivalLow': 'Low arrival battery',
+  'speech.event.charging': 'Charging finished',
+  'speech.event.alerts': 'Alerts',
+  'speech.preview': 'Voice announcements are on.',
+  'speech.navigating': 'Navigating to {destination}.',
+  'speech.navigatingArriving': 'Navigating to {destination}, arriving at {time}.',
+  'speech.etaLater': 'Arrival {minutes} minutes later.',
+  'speech.etaLaterAt': 'Arrival {minutes} minutes later, now {time}.',
+  'speech.etaEarlier': 'Arrival {minutes} minutes earlier.',
+  'speech.etaEarlierAt': 'Arrival {minutes} minutes earlier, now {time}.',
+  'speech.arrivalLow': 'Arrival battery {soc} percent, below your reserve.',
+  'speech.chargeLimit': 'Charge limit of {soc} percent reached.',
+  'speech.chargingStopped': 'Charging stopped at {soc} percent.',
+
+  'device.title': 'Device Access',
+  'device.linked': 'This device is linked to the proxy.',
+  'device.forget': 'Forget',
+  'device.pairingPlaceholder': 'Pairing code from server log',
+  'device.tokenPlaceholder': 'Access token',
+  'device.link': 'Link',
+  'device.rejected': 'Code or token was not accepted.',
+  'device.unreachable': 'Could not reach the proxy.',
+
+  'proxy.title': 'Proxy Settings',
+  'proxy.saveDevice': 'Save for this HUD',
+  'proxy.saveDefaults': 'Save as defaults',
+  'proxy.savedDevice': 'Saved for this HUD.',
+  'proxy.savedDefaults': 'Saved as defaults for all HUDs.',
+  'proxy.saveFailed': 'Could not save settings on the proxy.',
+  'proxy.remoteHint': 'Open {url} on another phone to control this HUD ({name}).',
+
+  'vehicle.title': 'Vehicle',
+  'vehicle.car': 'Car {id}',
+
+  'demo.title': 'Testing & Simulation',
+  'demo.start': 'Start demo sequence',
+  'demo.stop': 'Stop demo sequence',
+  'demo.play': 'Play',
+  'demo.pause': 'Pause',
+  'demo.loop': 'Loop',
+  'demo.stopTitle': 'Stop demo',
+  'demo.builtin.name': 'City & highway',
+  'demo.builtin.description': 'Built-in 30s loop: parking, city, navigation, regen and reversing',
+  'demo.scene.parkedFull': 'Parked – full battery',
+  'demo.scene.city': 'City driving',
+  'demo.scene.cityAccelerating': 'City driving – accelerating',
+  'demo.scene.highway': 'Navigation – highway',
+  'demo.scene.cruising': 'Navigation – cruising',
+  'demo.scene.regen': 'Regen braking',
+  'demo.scene.lowBattery': 'Low battery',
+  'demo.scene.reversing': 'Reversing',
+  'demo.scene.parked': 'Parked',
+
+  'scenario.lowBatteryArrival.name': 'Low battery arrival',
+  'scenario.lowBatteryArrival.description': 'Long navigation leg that arrives with about 3 % left',
+  'scenario.lowBatteryArrival.highwayLow': 'Highway – battery low',
+  'scenario.lowBatteryArrival.slowingDown': 'Slowing down to save energy',
+  'scenario.lowBatteryArrival.traffic': 'Traffic ahead',
+  'scenario.lowBatteryArrival.arrivingInTown': 'Arriving in town',
+  'scenario.lowBatteryArrival.arrived': 'Arrived – 4 %',
+  'scenario.superchargerStop.name': 'Supercharger stop',
+  'scenario.superchargerStop.description': 'Arrive at 12 %, charge from 150 kW tapering to 90 kW up to 60 %, then unplug and drive on',
+  'scenario.superchargerStop.arriving': 'Arriving at the Supercharger',
+  'scenario.superchargerStop.pluggedIn': 'Plugged in',
+  'scenario.superchargerStop.peakPower': 'Charging at peak power',
+  'scenario.superchargerStop.tapering': 'Charging – tapering',
+  'scenario.superchargerStop.unplugged': 'Unplugged',
+  'scenario.superchargerStop.backOnRoad': 'Back on the road',
+  'scenario.winterTrip.name': 'Winter trip',
+  'scenario.winterTrip.description': 'Cold start at -8 °C, preconditioning and a snowy highway run with high consumption',
+  'scenario.winterTrip.preconditioning': 'Parked – preconditioning',
+  'scenario.winterTrip.cabinWarm': 'Cabin warm – ready',
+  'scenario.winterTrip.pullingAway': 'Navigation set – pulling away',
+  'scenario.winterTrip.snowyRoad': 'Snowy country road',
+  'scenario.winterTrip.highwayCold': 'Highway in the cold',
+  'scenario.winterTrip.climbing': 'Climbing into the hills',
+  'scenario.winterTrip.arrived': 'Arrived',
+
+  'replay.title': 'Recorded Trips',
+  'replay.stop': 'Stop replay',
+  'recording.drive': 'Drive',
+  'recording.charge': 'Charge',
+
+  'log.title': 'Link Status',
+  'log.empty': 'No connection established yet...',
+  'log.pairingRequired': 'System: Proxy requires pairing - enter the code from the server log in Settings.',
+  'log.serverConfig': 'System: Fetched server environment (Prefix: {prefix}, Car: {carId})',
+  'log.serverConfigFailed': 'System: Could not fetch server config, using local defaults.',
+  'log.carsFailed': 'System: Could not fetch car list.',
+  'log.deviceLinked': 'System: Device linked to proxy.',
+  'log.settingsApplied': 'System: Applied settings from proxy.',
+  'log.settingRejected': 'System: Ignored invalid setting {key} from proxy.',
+  'log.remoteCommand': 'System: Remote command {command}',
+  'log.wakeLockFailed': 'Wake Lock: Failed',
+  'log.replayStarted': 'Replay: {id} at {speed}x',
+  'log.replayFinished': 'Replay: finished {id}',
+  'log.alert': 'Alert: {name} - {message}',
+  'log.replayFailed': 'Replay: {error}',
+  'log.alertRuleSkipped': 'Alerts: skipped proxy rule - {error}',
+  'log.scenarioSkipped': 'Demo: skipped scenario - {error}',
+
+  'mqtt.switchedCar': 'Switched to car {carId}',
+  'mqtt.retrying': 'Retrying in {seconds}s (attempt {attempt})...',
+  'mqtt.heartbeatLost': '⚠️ No heartbeat from proxy, connection is stale',
+  'mqtt.connecting': 'Attempting connection: {url}',
+  'mqtt.linked': '✅ Linked to HUD Proxy Server',
+  'mqtt.status': 'Status: {message}',
+  'mqtt.missedUpdates': 'Missed updates (seq {from} → {to}), requesting resync',
+  'mqtt.disconnected': '❌ Proxy disconnected (Code: {code})',
+  'mqtt.socketError': '⚠️ WebSocket Error (Check Reverse Proxy /ws mapping)',
+  'mqtt.connectionError': '🔥 Connection error: {error}',
+  'mqtt.disconnecting': 'Disconnecting Proxy...',
+
+  'mode.NORMAL': 'Normal',
+  'mode.MIRROR': 'Mirror',
+  'mode.FLIPPED': 'Flipped',
+
+  'remote.connecting': 'Connecting to proxy…',
+  'remote.title': 'HUD Remote',
+  'remote.linkPhone': 'Link this phone',
+  'remote.target': 'Target',
+  'remote.allHuds': 'All HUDs (defaults)',
+  'remote.mode': 'Display Mode',
+  'remote.units': 'Units',
+  'remote.metric': 'Metric',
+  'remote.imperial': 'Imperial',
+  'remote.theme': 'Theme',
+  'remote.language': 'Language',
+  'remote.languageAuto': 'Auto',
+  'remote.layout': 'Layout',
+  'remote.actions': 'Actions',
+  'remote.hudOffline': 'Actions (HUD offline)',
+  'remote.demo': 'Demo',
+  'remote.stop': 'Stop',
+  'remote.settings': 'Settings',
+  'remote.close': 'Close',
+};
+
+export type Messages = typeof en;
+
+export default en;
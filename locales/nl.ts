@@ -0,0 +1,333 @@
+import { Messages } from './en.ts';
+
+const nl: Messages = {
+  'common.on': 'Aan',
+  'common.off': 'Uit',
+  'common.save': 'Opslaan',
+  'common.test': 'Test',
+  'common.defaults': 'Standaard',
+  'common.minutes': 'min',
+
+  'language.title': 'Taal',
+  'language.auto': 'Automatisch ({language})',
+
+  'status.demo': 'Demo: {scene} - {remaining}',
+  'status.paused': 'gepauzeerd',
+  'status.replay': 'Afspelen: {kind} {time} - {speed}x',
+  'status.searching': 'Voertuig zoeken...',
+  'status.carAsleep': 'Auto slaapt · {age}',
+  'status.carOffline': 'Auto offline · {age}',
+  'status.pairingRequired': 'Koppelen vereist',
+  'status.linkStale': 'Verbinding verouderd',
+  'status.reconnecting': 'Opnieuw verbinden over {seconds}s',
+
+  'banner.checkTires': 'Controleer banden: {tires} {unit}',
+  'banner.arrival': 'Aankomst {soc}% · Reserve {reserve}%',
+  'tire.front_left': 'LV',
+  'tire.front_right': 'RV',
+  'tire.rear_left': 'LA',
+  'tire.rear_right': 'RA',
+
+  'hud.limit': 'Limiet {limit}',
+  'hud.lastUpdate': 'Laatste update {age} geleden',
+  'nav.eta': 'Aankomst: {time}',
+
+  'compass.N': 'N',
+  'compass.NE': 'NO',
+  'compass.E': 'O',
+  'compass.SE': 'ZO',
+  'compass.S': 'Z',
+  'compass.SW': 'ZW',
+  'compass.W': 'W',
+  'compass.NW': 'NW',
+
+  'widget.none': 'Leeg',
+  'widget.range': 'Actieradius',
+  'widget.battery': 'Accu',
+  'widget.gear': 'Versnelling',
+  'widget.power': 'Vermogen',
+  'widget.gearPower': 'Versnelling & vermogensbalk',
+  'widget.outsideTemp': 'Buitentemperatuur',
+  'widget.insideTemp': 'Binnentemperatuur',
+  'widget.elevation': 'Hoogte',
+  'widget.geofence': 'Geofence',
+  'widget.odometer': 'Kilometerstand',
+  'widget.isLocked': 'Vergrendeling',
+  'widget.compass': 'Kompas',
+  'widget.bearing': 'Richting bestemming',
+  'widget.tripComputer': 'Boordcomputer',
+  'widget.outside': '{unit} buiten',
+  'widget.inside': '{unit} binnen',
+  'widget.elev': '{unit} hoogte',
+  'widget.odo': '{unit} totaal',
+  'widget.direct': '{unit} hemelsbreed',
+  'widget.locked': 'Vergrendeld',
+  'widget.unlocked': 'Ontgrendeld',
+
+  'summary.title': 'Rit voltooid',
+  'summary.distance': 'Afstand',
+  'summary.duration': 'Duur',
+  'summary.maxSpeed': 'Topsnelheid',
+  'summary.energy': 'Energie',
+  'summary.battery': 'Accu',
+  'summary.average': 'Gemiddeld',
+
+  'charging.title': 'Laden',
+  'charging.doneAt': 'Klaar om',
+  'charging.added': 'Geladen',
+
+  'settings.title': 'Instellingen',
+  'settings.subtitle': 'Weergave en dataverbinding instellen.',
+  'settings.dismiss': 'Sluiten',
+  'settings.relink': 'Datafeed opnieuw verbinden',
+
+  'units.title': 'Eenheden',
+  'units.speed': 'Snelheid',
+  'units.distance': 'Afstand',
+  'units.temperature': 'Temperatuur',
+  'units.pressure': 'Bandenspanning',
+  'units.efficiency': 'Verbruik',
+  'units.clock': 'Klok',
+  'units.localeDefaults': 'Standaard voor {locale}',
+
+  'layout.title': 'HUD-indeling',
+  'layout.left': 'Links',
+  'layout.right': 'Rechts',
+  'layout.info1': 'Info 1',
+  'layout.info2': 'Info 2',
+  'layout.info3': 'Info 3',
+  'layout.deletePreset': 'Voorinstelling {name} verwijderen',
+  'layout.savePlaceholder': 'Huidige indeling opslaan als…',
+  'layout.preset.default': 'Standaard',
+  'layout.preset.minimal': 'Minimaal',
+  'layout.preset.touring': 'Toeren',
+  'layout.preset.commute': 'Woon-werk',
+
+  'tpms.title': 'Bandenspanning',
+  'tpms.warnBelow': 'Waarschuwen onder ({unit})',
+  'tpms.maxDifference': 'Max. verschil ({unit})',
+
+  'stale.title': 'Verouderde gegevens',
+  'stale.dimAfter': 'Waarden dimmen ouder dan (seconden)',
+
+  'theme.title': 'Weergavethema',
+  'theme.sun': 'Auto (zon)',
+  'theme.schedule': 'Schema',
+  'theme.day': 'Dag',
+  'theme.night': 'Nacht',
+  'theme.contrast': 'Contrast',
+  'theme.dayFrom': 'Dag vanaf',
+  'theme.nightFrom': 'Nacht vanaf',
+  'theme.noPosition': 'Nog geen positie van de auto - het schema hierboven geldt.',
+  'theme.midnightSun': 'Middernachtzon op de positie van de auto - dagmodus blijft actief.',
+  'theme.polarNight': 'Poolnacht op de positie van de auto - nachtmodus blijft actief.',
+  'theme.sunTimes': 'Zonsopkomst {sunrise} · Zonsondergang {sunset} op de positie van de auto.',
+  'theme.dimming': 'Dimmen (%)',
+
+  'calibration.title': 'Voorruitkalibratie',
+  'calibration.calibrate': 'Kalibreren · {profile}',
+  'calibration.active': '(actief)',
+  'calibration.hint': 'Sleep de hoekpunten tot de weerspiegeling van het raster rechthoekig lijkt.',
+  'calibration.scale': 'Schaal',
+  'calibration.offsetX': 'Verschuiving X',
+  'calibration.offsetY': 'Verschuiving Y',
+  'calibration.rotation': 'Rotatie',
+  'calibration.deleteProfile': 'Profiel {name} verwijderen',
+  'calibration.profilePlaceholder': 'Nieuw profiel (bijv. Model 3 dashboard)',
+  'calibration.reset': 'Herstellen',
+  'calibration.done': 'Klaar',
+
+  'arrival.title': 'Aankomstprognose',
+  'arrival.reserve': 'Reserve (%)',
+  'arrival.capacity': 'Bruikbare accu (kWh)',
+
+  'driveSummary.title': 'Ritoverzicht',
+  'driveSummary.showFor': 'Tonen na parkeren gedurende (seconden, 0 = uit)',
+
+  'speedLimits.title': 'Snelheidslimieten',
+  'speedLimits.max': 'Max. ({unit}, 0 = uit)',
+  'speedLimits.tolerance': 'Tolerantie (%)',
+  'speedLimits.hysteresis': 'Hysterese ({unit})',
+  'speedLimits.geofencePlaceholder': 'Naam geofence (bijv. Schoolzone)',
+  'speedLimits.removeRule': 'Regel verwijderen',
+  'speedLimits.add': 'Geofence-limiet toevoegen',
+
+  'alerts.title': 'Waarschuwingen',
+  'alerts.chime': 'Signaal',
+  'alerts.enableRule': 'Regel inschakelen',
+  'alerts.disableRule': 'Regel uitschakelen',
+  'alerts.proxy': 'proxy',
+  'alerts.and': 'en',
+  'alerts.ruleSummary': '{conditions} · elke {minutes} min',
+  'alerts.muteChime': 'Signaal uit',
+  'alerts.playChime': 'Signaal aan',
+  'alerts.removeRule': 'Regel verwijderen',
+  'alerts.namePlaceholder': 'Nieuwe waarschuwing (bijv. Koude cabine)',
+  'alerts.every': 'elke',
+  'alerts.add': 'Waarschuwing toevoegen',
+  'severity.info': 'info',
+  'severity.warning': 'waarschuwing',
+  'severity.critical': 'kritiek',
+  'alert.lowBattery.name': 'Accu bijna leeg',
+  'alert.lowBattery.message': 'Accu {batteryLevel}%',
+  'alert.unlockedDriving.name': 'Ontgrendeld tijdens het rijden',
+  'alert.unlockedDriving.message': 'Deuren ontgrendeld',
+  'alert.iceRisk.name': 'Kans op gladheid',
+  'alert.iceRisk.message': 'Kans op gladheid · {outsideTemp} buiten',
+  'alert.chargeLimit.name': 'Laadlimiet bereikt',
+  'alert.chargeLimit.message': 'Geladen tot {batteryLevel}%',
+  'alert.offlineDriving.name': 'Auto offline tijdens het rijden',
+  'alert.offlineDriving.message': 'Auto offline · gegevens worden niet bijgewerkt',
+
+  'speech.title': 'Gesproken meldingen',
+  'speech.unsupported': 'Deze browser ondersteunt geen spraakuitvoer.',
+  'speech.language': 'Taal',
+  'speech.hudLanguage': 'HUD-taal ({language})',
+  'speech.voice': 'Stem',
+  'speech.defaultVoice': 'Standaard',
+  'speech.volume': 'Volume',
+  'speech.quietHoursOn': 'Stille uren aan',
+  'speech.quietHoursOff': 'Stille uren uit',
+  'speech.from': 'Van',
+  'speech.until': 'Tot',
+  'speech.event.destination': 'Nieuwe bestemming',
+  'speech.event.etaShift': 'Aankomsttijd verandert',
+  'speech.event.arrivalLow': 'Lage accu bij aankomst',
+  'speech.event.charging': 'Laden voltooid',
+  'speech.event.alerts': 'Waarschuwingen',
+  'speech.preview': 'Gesproken meldingen staan aan.',
+  'speech.navigating': 'Navigatie naar {destination}.',
+  'speech.navigatingArriving': 'Navigatie naar {destination}, aankomst om {time}.',
+  'speech.etaLater': 'Aankomst {minutes} minuten later.',
+  'speech.etaLaterAt': 'Aankomst {minutes} minuten later, nu om {time}.',
+  'speech.etaEarlier': 'Aankomst {minutes} minuten eerder.',
+  'speech.etaEarlierAt': 'Aankomst {minutes} minuten eerder, nu om {time}.',
+  'speech.arrivalLow': 'Accu bij aankomst {soc} procent, onder je reserve.',
+  'speech.chargeLimit': 'Laadlimiet van {soc} procent bereikt.',
+  'speech.chargingStopped': 'Laden gestopt bij {soc} procent.',
+
+  'device.title': 'Apparaattoegang',
+  'device.linked': 'Dit apparaat is gekoppeld aan de proxy.',
+  'device.forget': 'Ontkoppelen',
+  'device.pairingPlaceholder': 'Koppelcode uit het serverlog',
+  'device.tokenPlaceholder': 'Toegangstoken',
+  'device.link': 'Koppelen',
+  'device.rejected': 'Code of token is niet geaccepteerd.',
+  'device.unreachable': 'De proxy is niet bereikbaar.',
+
+  'proxy.title': 'Proxy-instellingen',
+  'proxy.saveDevice': 'Opslaan voor deze HUD',
+  'proxy.saveDefaults': 'Opslaan als standaard',
+  'proxy.savedDevice': 'Opgeslagen voor deze HUD.',
+  'proxy.savedDefaults': 'Opgeslagen als standaard voor alle HUD\'s.',
+  'proxy.saveFailed': 'Instellingen konden niet op de proxy worden opgeslagen.',
+  'proxy.remoteHint': 'Open {url} op een andere telefoon om deze HUD ({name}) te bedienen.',
+
+  'vehicle.title': 'Voertuig',
+  'vehicle.car': 'Auto {id}',
+
+  'demo.title': 'Testen & simulatie',
+  'demo.start': 'Demoreeks starten',
+  'demo.stop': 'Demoreeks stoppen',
+  'demo.play': 'Afspelen',
+  'demo.pause': 'Pauzeren',
+  'demo.loop': 'Herhalen',
+  'demo.stopTitle': 'Demo stoppen',
+  'demo.builtin.name': 'Stad & snelweg',
+  'demo.builtin.description': 'Ingebouwde lus van 30 s: parkeren, stad, navigatie, regeneratie en achteruitrijden',
+  'demo.scene.parkedFull': 'Geparkeerd – accu vol',
+  'demo.scene.city': 'Rijden in de stad',
+  'demo.scene.cityAccelerating': 'Rijden in de stad – optrekken',
+  'demo.scene.highway': 'Navigatie – snelweg',
+  'demo.scene.cruising': 'Navigatie – kruissnelheid',
+  'demo.scene.regen': 'Regeneratief remmen',
+  'demo.scene.lowBattery': 'Accu bijna leeg',
+  'demo.scene.reversing': 'Achteruitrijden',
+  'demo.scene.parked': 'Geparkeerd',
+
+  'scenario.lowBatteryArrival.name': 'Aankomst met lege accu',
+  'scenario.lowBatteryArrival.description': 'Lange navigatierit die aankomt met ongeveer 3 % over',
+  'scenario.lowBatteryArrival.highwayLow': 'Snelweg – accu bijna leeg',
+  'scenario.lowBatteryArrival.slowingDown': 'Langzamer rijden om energie te sparen',
+  'scenario.lowBatteryArrival.traffic': 'File verderop',
+  'scenario.lowBatteryArrival.arrivingInTown': 'Aankomst in de stad',
+  'scenario.lowBatteryArrival.arrived': 'Aangekomen – 4 %',
+  'scenario.superchargerStop.name': 'Supercharger-stop',
+  'scenario.superchargerStop.description': 'Aankomst met 12 %, laden van 150 kW aflopend naar 90 kW tot 60 %, dan loskoppelen en doorrijden',
+  'scenario.superchargerStop.arriving': 'Aankomst bij de Supercharger',
+  'scenario.superchargerStop.pluggedIn': 'Aangesloten',
+  'scenario.superchargerStop.peakPower': 'Laden op piekvermogen',
+  'scenario.superchargerStop.tapering': 'Laden – vermogen neemt af',
+  'scenario.superchargerStop.unplugged': 'Losgekoppeld',
+  'scenario.superchargerStop.backOnRoad': 'Weer onderweg',
+  'scenario.winterTrip.name': 'Winterrit',
+  'scenario.winterTrip.description': 'Koude start bij -8 °C, voorverwarmen en een besneeuwde snelwegrit met hoog verbruik',
+  'scenario.winterTrip.preconditioning': 'Geparkeerd – voorverwarmen',
+  'scenario.winterTrip.cabinWarm': 'Interieur warm – klaar',
+  'scenario.winterTrip.pullingAway': 'Navigatie ingesteld – wegrijden',
+  'scenario.winterTrip.snowyRoad': 'Besneeuwde landweg',
+  'scenario.winterTrip.highwayCold': 'Snelweg in de kou',
+  'scenario.winterTrip.climbing': 'Klimmen de heuvels in',
+  'scenario.winterTrip.arrived': 'Aangekomen',
+
+  'replay.title': 'Opgenomen ritten',
+  'replay.stop': 'Afspelen stoppen',
+  'recording.drive': 'Rit',
+  'recording.charge': 'Laadsessie',
+
+  'log.title': 'Verbindingsstatus',
+  'log.empty': 'Nog geen verbinding gemaakt...',
+  'log.pairingRequired': 'Systeem: De proxy vereist koppelen - voer de code uit het serverlog in bij Instellingen.',
+  'log.serverConfig': 'Systeem: Serveromgeving opgehaald (Prefix: {prefix}, Auto: {carId})',
+  'log.serverConfigFailed': 'Systeem: Serverconfiguratie niet opgehaald, lokale standaardwaarden worden gebruikt.',
+  'log.carsFailed': 'Systeem: Voertuiglijst niet opgehaald.',
+  'log.deviceLinked': 'Systeem: Apparaat gekoppeld aan de proxy.',
+  'log.settingsApplied': 'Systeem: Instellingen van de proxy toegepast.',
+  'log.settingRejected': 'Systeem: Ongeldige instelling {key} van de proxy genegeerd.',
+  'log.remoteCommand': 'Systeem: Opdracht op afstand {command}',
+  'log.wakeLockFailed': 'Wake Lock: Mislukt',
+  'log.replayStarted': 'Afspelen: {id} op {speed}x',
+  'log.replayFinished': 'Afspelen: {id} voltooid',
+  'log.alert': 'Waarschuwing: {name} - {message}',
+  'log.replayFailed': 'Afspelen: {error}',
+  'log.alertRuleSkipped': 'Waarschuwingen: proxyregel overgeslagen - {error}',
+  'log.scenarioSkipped': 'Demo: scenario overgeslagen - {error}',
+
+  'mqtt.switchedCar': 'Overgeschakeld naar auto {carId}',
+  'mqtt.retrying': 'Opnieuw proberen over {seconds}s (poging {attempt})...',
+  'mqtt.heartbeatLost': '⚠️ Geen heartbeat van de proxy, verbinding is verouderd',
+  'mqtt.connecting': 'Verbinding maken: {url}',
+  'mqtt.linked': '✅ Verbonden met de HUD-proxyserver',
+  'mqtt.status': 'Status: {message}',
+  'mqtt.missedUpdates': 'Updates gemist (seq {from} → {to}), hersynchronisatie aangevraagd',
+  'mqtt.disconnected': '❌ Proxy verbroken (Code: {code})',
+  'mqtt.socketError': '⚠️ WebSocket-fout (controleer de reverse-proxy-koppeling voor /ws)',
+  'mqtt.connectionError': '🔥 Verbindingsfout: {error}',
+  'mqtt.disconnecting': 'Proxy verbreken...',
+
+  'mode.NORMAL': 'Normaal',
+  'mode.MIRROR': 'Gespiegeld',
+  'mode.FLIPPED': 'Gedraaid',
+
+  'remote.connecting': 'Verbinden met proxy…',
+  'remote.title': 'HUD-afstandsbediening',
+  'remote.linkPhone': 'Deze telefoon koppelen',
+  'remote.target': 'Doel',
+  'remote.allHuds': 'Alle HUD\'s (standaard)',
+  'remote.mode': 'Weergavemodus',
+  'remote.units': 'Eenheden',
+  'remote.metric': 'Metrisch',
+  'remote.imperial': 'Imperiaal',
+  'remote.theme': 'Thema',
+  'remote.language': 'Taal',
+  'remote.languageAuto': 'Automatisch',
+  'remote.layout': 'Indeling',
+  'remote.actions': 'Acties',
+  'remote.hudOffline': 'Acties (HUD offline)',
+  'remote.demo': 'Demo',
+  'remote.stop': 'Stop',
+  'remote.settings': 'Instellingen',
+  'remote.close': 'Sluiten',
+};
+
+export default nl;
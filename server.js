@@ -2,8 +2,14 @@
 import express from 'express';
 import { WebSocketServer } from 'ws';
 import mqtt from 'mqtt';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createAuth } from './server/auth.js';
+import { createRecorder } from './server/recorder.js';
+import { createSettingsStore, DEVICE_ID } from './server/settings.js';
+import { createMetrics } from './server/metrics.js';
+import { TOPIC_PARSERS } from './shared/topicParsers.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
@@ -12,16 +18,270 @@ const port = process.env.PORT || 80;
 // MQTT Configuration (Server-side ONLY)
 const MQTT_URL = process.env.MQTT_URL || 'mqtt://localhost:1883';
 const MQTT_PREFIX = process.env.MQTT_TOPIC_PREFIX || 'teslamate';
-const CAR_ID = process.env.MQTT_CAR_ID || '1';
+const CAR_ID = process.env.MQTT_CAR_ID || '1'; // Default car shown by HUDs that haven't picked one
+const CAR_IDS = (process.env.MQTT_CAR_IDS || '') // Optional comma-separated allow-list, empty = all cars
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
 const PUBLIC_WS_URL = process.env.PUBLIC_WS_URL || ''; // Optional override for WS connection
+const TOPIC_MAP_FILE = process.env.TOPIC_MAP_FILE || path.join(__dirname, 'topic-map.json');
+
+// Access control (off unless a shared token or pairing is configured)
+const AUTH_TOKEN = process.env.AUTH_TOKEN || '';
+const AUTH_PAIRING = process.env.AUTH_PAIRING === 'true';
+const DEVICES_FILE = process.env.DEVICES_FILE || path.join(__dirname, 'data', 'devices.json');
+
+// Trip recording (off unless RECORD=true)
+const RECORD = process.env.RECORD === 'true';
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || path.join(__dirname, 'data', 'recordings');
+
+// HUD settings managed from the proxy (defaults + per-device overrides)
+const SETTINGS_FILE = process.env.SETTINGS_FILE || path.join(__dirname, 'data', 'settings.json');
+
+// Alert rules offered to every HUD on top of the ones set up in its Settings
+const ALERT_RULES_FILE = process.env.ALERT_RULES_FILE || path.join(__dirname, 'alert-rules.json');
+
+// /readyz fails when no MQTT message arrived for this long (0 = no limit; a sleeping car is quiet)
+const READY_MAX_MESSAGE_AGE = parseInt(process.env.READY_MAX_MESSAGE_AGE) || 0;
+
+// Demo scenarios offered in the HUD's Settings, one JSON file each
+const SCENARIOS_DIR = process.env.SCENARIOS_DIR || path.join(__dirname, 'scenarios');
+
+// Extra topic → TeslaData mappings, merged over the HUD's built-in table
+const loadTopicMap = () => {
+  if (!fs.existsSync(TOPIC_MAP_FILE)) return [];
+  try {
+    const entries = JSON.parse(fs.readFileSync(TOPIC_MAP_FILE, 'utf8'));
+    if (!Array.isArray(entries)) throw new Error('expected an array of mappings');
+    const valid = entries.filter(entry =>
+      typeof entry?.topic === 'string' &&
+      typeof entry?.field === 'string' &&
+      TOPIC_PARSERS.includes(entry?.parser)
+    );
+    if (valid.length < entries.length) {
+      console.warn(`⚠️ Topic map: skipped ${entries.length - valid.length} invalid entries`);
+    }
+    console.log(`🗺️ Topic map: loaded ${valid.length} mappings from ${TOPIC_MAP_FILE}`);
+    return valid;
+  } catch (err) {
+    console.error(`❌ Topic map: could not read ${TOPIC_MAP_FILE}:`, err.message);
+    return [];
+  }
+};
+
+const topicMap = loadTopicMap();
+
+const auth = createAuth({ sharedToken: AUTH_TOKEN, pairingEnabled: AUTH_PAIRING, devicesFile: DEVICES_FILE });
+const settings = createSettingsStore({ file: SETTINGS_FILE });
+const metrics = createMetrics();
+app.use(express.json());
+
+// ── Health & metrics (public, no car data) ───────────────────────────────────
+// Liveness: the proxy runs and its broker link is up
+app.get('/healthz', (req, res) => {
+  const state = metrics.state();
+  res.status(state.mqttConnected ? 200 : 503).json({ status: state.mqttConnected ? 'ok' : 'mqtt disconnected', ...state });
+});
+
+// Readiness: telemetry is actually flowing, so HUDs connecting now get data
+app.get('/readyz', (req, res) => {
+  const state = metrics.state();
+  let status = 'ok';
+  if (!state.mqttConnected) status = 'mqtt disconnected';
+  else if (state.lastMessageAge === null) status = 'no messages yet';
+  else if (READY_MAX_MESSAGE_AGE > 0 && state.lastMessageAge > READY_MAX_MESSAGE_AGE) status = 'telemetry stale';
+  res.status(status === 'ok' ? 200 : 503).json({ status, ...state });
+});
+
+app.get('/metrics', (req, res) => {
+  const wsClients = { 1: 0, [PROTOCOL_VERSION]: 0 };
+  wss.clients.forEach(client => { wsClients[client.protocolVersion] = (wsClients[client.protocolVersion] || 0) + 1; });
+  res.type('text/plain; version=0.0.4').send(metrics.render({ wsClients, topicCacheSize: topicCache.size }));
+});
+
+// Public: tells the HUD whether it has to pair before anything else works
+app.get('/api/auth', (req, res) => {
+  res.json({
+    required: auth.required,
+    pairing: auth.pairingEnabled,
+    authenticated: Boolean(auth.verifyToken(auth.tokenFromRequest(req)))
+  });
+});
+
+// Public: redeem the pairing code from the server log for a device token
+app.post('/api/pair', (req, res) => {
+  const result = auth.pair(req.body?.code, req.body?.name);
+  if (!result) {
+    res.status(403).json({ error: 'invalid or expired pairing code' });
+    return;
+  }
+  res.json(result);
+});
+
+// Everything else under /api needs a valid token
+app.use('/api', auth.middleware);
+
+// Paired device management
+app.get('/api/devices', (req, res) => {
+  res.json(auth.listDevices());
+});
+
+app.delete('/api/devices/:id', (req, res) => {
+  if (!auth.revokeDevice(req.params.id)) {
+    res.status(404).json({ error: 'unknown device' });
+    return;
+  }
+  // Cut off live streams of the revoked device right away
+  wss.clients.forEach((client) => {
+    if (client.clientId === req.params.id) client.terminate();
+  });
+  res.status(204).end();
+});
 
 // API for Frontend to get its config
 app.get('/api/config', (req, res) => {
   res.json({
     topicPrefix: MQTT_PREFIX,
     carId: parseInt(CAR_ID),
-    proxyUrl: PUBLIC_WS_URL
+    proxyUrl: PUBLIC_WS_URL,
+    topicMap
+  });
+});
+
+// Cars discovered on the broker, keyed by TeslaMate car id
+const cars = new Map();
+const carsTopicRoot = `${MQTT_PREFIX}/cars/`;
+CAR_IDS.forEach(id => cars.set(parseInt(id), { id: parseInt(id), name: `Car ${id}` }));
+
+const trackCar = (topic, dataString) => {
+  if (!topic.startsWith(carsTopicRoot)) return;
+  const [idPart, ...rest] = topic.slice(carsTopicRoot.length).split('/');
+  const id = parseInt(idPart);
+  if (isNaN(id)) return;
+
+  const car = cars.get(id) || { id, name: `Car ${id}` };
+  if (rest.join('/') === 'display_name' && dataString) car.name = dataString;
+  cars.set(id, car);
+};
+
+// API for Frontend to list selectable cars
+app.get('/api/cars', (req, res) => {
+  res.json([...cars.values()].sort((a, b) => a.id - b.id));
+});
+
+// Recorded trips, newest first
+app.get('/api/recordings', (req, res) => {
+  res.json(recorder.list());
+});
+
+// Replays a recording as NDJSON proxy messages at `?speed=` (1x by default)
+app.get('/api/recordings/:id/stream', async (req, res) => {
+  const speed = Math.min(Math.max(parseFloat(req.query.speed) || 1, 0.25), 32);
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  if (!(await recorder.stream(req.params.id, speed, res, () => closed))) {
+    res.status(404).json({ error: 'unknown recording' });
+  }
+});
+
+// Demo scenarios, re-read on every request so edits show up without a restart.
+// The HUD validates their contents; here a file only has to be JSON.
+app.get('/api/scenarios', (req, res) => {
+  if (!fs.existsSync(SCENARIOS_DIR)) return res.json([]);
+  const scenarios = fs.readdirSync(SCENARIOS_DIR)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .flatMap(name => {
+      try {
+        return [JSON.parse(fs.readFileSync(path.join(SCENARIOS_DIR, name), 'utf8'))];
+      } catch (err) {
+        console.warn(`⚠️ Scenarios: skipped ${name}:`, err.message);
+        return [];
+      }
+    });
+  res.json(scenarios);
+});
+
+// Alert rules, re-read on every request like the scenarios; the HUD validates each rule
+app.get('/api/alert-rules', (req, res) => {
+  if (!fs.existsSync(ALERT_RULES_FILE)) return res.json([]);
+  try {
+    const rules = JSON.parse(fs.readFileSync(ALERT_RULES_FILE, 'utf8'));
+    if (!Array.isArray(rules)) throw new Error('expected an array of rules');
+    res.json(rules);
+  } catch (err) {
+    console.warn(`⚠️ Alert rules: could not read ${ALERT_RULES_FILE}:`, err.message);
+    res.json([]);
+  }
+});
+
+// ── Settings & remote control ────────────────────────────────────────────────
+// Every change is pushed right away to the affected HUDs over the WebSocket.
+const HUD_COMMANDS = ['startDemo', 'stopDemo', 'openSettings', 'closeSettings'];
+
+const isOnline = (deviceId) => [...wss.clients].some(client => client.deviceId === deviceId);
+
+app.get('/api/settings', (req, res) => {
+  res.json(settings.getDefaults());
+});
+
+app.put('/api/settings', (req, res) => {
+  const problem = settings.setDefaults(req.body);
+  if (problem) {
+    res.status(400).json({ error: problem });
+    return;
+  }
+  pushSettings();
+  res.json(settings.getDefaults());
+});
+
+app.get('/api/settings/devices', (req, res) => {
+  res.json(settings.listDevices()
+    .map(device => ({ ...device, online: isOnline(device.id) }))
+    .sort((a, b) => Number(b.online) - Number(a.online) || b.lastSeenAt - a.lastSeenAt));
+});
+
+app.get('/api/settings/devices/:id', (req, res) => {
+  if (!DEVICE_ID.test(req.params.id)) {
+    res.status(400).json({ error: 'invalid device id' });
+    return;
+  }
+  res.json({ ...settings.getDevice(req.params.id), online: isOnline(req.params.id) });
+});
+
+app.put('/api/settings/devices/:id', (req, res) => {
+  if (!DEVICE_ID.test(req.params.id)) {
+    res.status(400).json({ error: 'invalid device id' });
+    return;
+  }
+  const problem = settings.setDevice(req.params.id, req.body);
+  if (problem) {
+    res.status(400).json({ error: problem });
+    return;
+  }
+  pushSettings(req.params.id);
+  res.json(settings.getDevice(req.params.id));
+});
+
+// One-off actions that aren't preferences, e.g. starting the demo on the mounted HUD
+app.post('/api/settings/devices/:id/command', (req, res) => {
+  const command = req.body?.command;
+  if (!HUD_COMMANDS.includes(command)) {
+    res.status(400).json({ error: 'unknown command' });
+    return;
+  }
+  let delivered = 0;
+  forEachOpenClient(PROTOCOL_VERSION, client => {
+    if (client.deviceId !== req.params.id) return;
+    client.send(JSON.stringify({ type: 'command', command }));
+    delivered++;
   });
+  if (delivered === 0) {
+    res.status(404).json({ error: 'device is not connected' });
+    return;
+  }
+  console.log(`🎛️ Remote: ${command} → ${req.params.id}`);
+  res.status(204).end();
 });
 
 // Serve static files from the built frontend
@@ -33,7 +293,14 @@ const server = app.listen(port, '0.0.0.0', () => {
 });
 
 // Setup WebSocket Server for the Frontend
-const wss = new WebSocketServer({ server, path: '/ws' });
+const wss = new WebSocketServer({
+  server,
+  path: '/ws',
+  verifyClient: ({ req }) => {
+    req.client = auth.verifyToken(auth.tokenFromRequest(req));
+    return Boolean(req.client);
+  }
+});
 
 // Setup MQTT Client
 const mqttClient = mqtt.connect(MQTT_URL, {
@@ -42,63 +309,162 @@ const mqttClient = mqtt.connect(MQTT_URL, {
 });
 
 mqttClient.on('connect', () => {
+  metrics.mqttUp();
   console.log('✅ MQTT: Connected to internal broker');
-  const topicPattern = `${MQTT_PREFIX}/cars/${CAR_ID}/#`;
-  mqttClient.subscribe(topicPattern);
-  console.log(`📡 MQTT: Subscribed to ${topicPattern}`);
+  const topicPatterns = CAR_IDS.length > 0
+    ? CAR_IDS.map(id => `${MQTT_PREFIX}/cars/${id}/#`)
+    : [`${MQTT_PREFIX}/cars/+/#`];
+  mqttClient.subscribe(topicPatterns);
+  console.log(`📡 MQTT: Subscribed to ${topicPatterns.join(', ')}`);
 });
 
+// Last payload per topic with the time it arrived from the broker, so
+// re-sent values keep their original age
 const topicCache = new Map();
 
-mqttClient.on('message', (topic, message) => {
-  const dataString = message.toString();
-  topicCache.set(topic, dataString);
+const recorder = createRecorder({ dir: RECORDINGS_DIR, topicPrefix: MQTT_PREFIX, topicCache, enabled: RECORD });
 
-  const payload = JSON.stringify({
-    topic,
-    data: dataString,
-    timestamp: Date.now()
-  });
+// ── Proxy protocol ───────────────────────────────────────────────────────────
+// v2 clients (`/ws?protocol=2`) get one `snapshot` on connect and on request
+// (`{ type: 'resync' }`), then batched `delta` messages carrying a sequence
+// number so they can detect gaps. Clients without the parameter keep the
+// legacy stream: one message per topic plus a full re-send every minute.
+const PROTOCOL_VERSION = 2;
+const DELTA_INTERVAL_MS = 250;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
 
+let deltaSeq = 0;
+const pendingDelta = new Map(); // topic -> latest cache entry since the last delta
+
+const toMessage = (topic, { data, receivedAt }) => ({ topic, data, timestamp: receivedAt });
+
+const sendSnapshot = (ws) => {
+  ws.send(JSON.stringify({
+    type: 'snapshot',
+    protocol: PROTOCOL_VERSION,
+    seq: deltaSeq,
+    topics: [...topicCache].map(([topic, entry]) => toMessage(topic, entry))
+  }));
+};
+
+const forEachOpenClient = (protocol, fn) => {
   wss.clients.forEach((client) => {
-    if (client.readyState === 1) { // OPEN
-      client.send(payload);
+    if (client.readyState === 1 && client.protocolVersion === protocol) { // OPEN
+      fn(client);
     }
   });
+};
+
+const sendSettings = (ws) => {
+  ws.send(JSON.stringify({ type: 'settings', settings: settings.getDevice(ws.deviceId).effective }));
+};
+
+// Effective settings to one HUD, or to all of them after a change to the defaults
+const pushSettings = (deviceId) => {
+  forEachOpenClient(PROTOCOL_VERSION, client => {
+    if (client.deviceId && (!deviceId || client.deviceId === deviceId)) sendSettings(client);
+  });
+};
+
+mqttClient.on('message', (topic, message) => {
+  const dataString = message.toString();
+  const entry = { data: dataString, receivedAt: Date.now() };
+  metrics.mqttMessage(entry.receivedAt);
+  topicCache.set(topic, entry);
+  pendingDelta.set(topic, entry);
+  trackCar(topic, dataString);
+  recorder.record(topic, dataString, entry.receivedAt);
+
+  const payload = JSON.stringify(toMessage(topic, entry));
+  forEachOpenClient(1, client => client.send(payload));
 });
 
+mqttClient.on('reconnect', () => metrics.mqttReconnect());
+mqttClient.on('close', () => metrics.mqttDown());
+
 mqttClient.on('error', (err) => {
   console.error('❌ MQTT Error:', err.message);
 });
 
+// Flush batched changes to v2 clients
+setInterval(() => {
+  if (pendingDelta.size === 0) return;
+  deltaSeq++;
+  const payload = JSON.stringify({
+    type: 'delta',
+    seq: deltaSeq,
+    topics: [...pendingDelta].map(([topic, entry]) => toMessage(topic, entry))
+  });
+  pendingDelta.clear();
+  forEachOpenClient(PROTOCOL_VERSION, client => client.send(payload));
+}, DELTA_INTERVAL_MS);
+
 wss.on('connection', (ws, req) => {
   const ip = req.socket.remoteAddress;
-  console.log(`📱 Client connected from ${ip}`);
+  const params = new URL(req.url, 'http://localhost').searchParams;
+  const requested = parseInt(params.get('protocol'));
+  ws.protocolVersion = requested === PROTOCOL_VERSION ? PROTOCOL_VERSION : 1;
+  ws.clientId = req.client.id;
+  metrics.wsConnection();
+  // HUDs identify themselves so settings and remote commands can target them
+  const deviceId = params.get('device');
+  if (deviceId && DEVICE_ID.test(deviceId)) {
+    ws.deviceId = deviceId;
+    settings.touchDevice(deviceId, (params.get('name') || '').slice(0, 64));
+  }
+  console.log(`📱 Client connected from ${ip} (protocol v${ws.protocolVersion})`);
   ws.send(JSON.stringify({ type: 'status', msg: 'Linked to Tesla Proxy' }));
 
-  // Send all cached values immediately to the newly connected client
-  topicCache.forEach((data, topic) => {
-    ws.send(JSON.stringify({
-      topic,
-      data,
-      timestamp: Date.now()
-    }));
+  // Browsers answer protocol-level pings on their own; v2 clients also answer app-level ones
+  ws.isAlive = true;
+  ws.on('pong', () => { ws.isAlive = true; });
+  ws.on('close', () => console.log(`📴 Client disconnected from ${ip}`));
+
+  if (ws.protocolVersion === PROTOCOL_VERSION) {
+    sendSnapshot(ws);
+    if (ws.deviceId) sendSettings(ws);
+    ws.on('message', (raw) => {
+      try {
+        const msg = JSON.parse(raw.toString());
+        if (msg.type === 'resync') {
+          metrics.wsResync();
+          sendSnapshot(ws);
+        }
+        if (msg.type === 'pong') ws.isAlive = true;
+      } catch {
+        // Ignore malformed client messages
+      }
+    });
+    return;
+  }
+
+  // Send all cached values immediately to the newly connected legacy client
+  topicCache.forEach((entry, topic) => {
+    ws.send(JSON.stringify(toMessage(topic, entry)));
   });
 });
 
-// Broadcast full cached state once a minute to all connected clients
+// Heartbeat: drop clients that missed the previous round, ping the rest. The
+// app-level ping lets v2 clients notice a silent, half-open link themselves.
 setInterval(() => {
-  const timestamp = Date.now();
+  const ping = JSON.stringify({ type: 'ping', ts: Date.now() });
   wss.clients.forEach((client) => {
-    if (client.readyState === 1) { // OPEN
-      topicCache.forEach((data, topic) => {
-        client.send(JSON.stringify({
-          topic,
-          data,
-          timestamp
-        }));
-      });
+    if (!client.isAlive) {
+      client.terminate();
+      return;
     }
+    client.isAlive = false;
+    client.ping();
+    if (client.readyState === 1 && client.protocolVersion === PROTOCOL_VERSION) client.send(ping);
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+// Broadcast full cached state once a minute to legacy clients
+setInterval(() => {
+  forEachOpenClient(1, client => {
+    topicCache.forEach((entry, topic) => {
+      client.send(JSON.stringify(toMessage(topic, entry)));
+    });
   });
 }, 60 * 1000);
 
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_PAIRING_ATTEMPTS = 5; // wrong guesses before the code is replaced
+// Each code burned by wrong guesses pauses pairing, twice as long as the last time
+const PAIRING_LOCKOUT_BASE_MS = 60 * 1000;
+const PAIRING_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+const LAST_SEEN_SAVE_MS = 10 * 60 * 1000; // lastSeenAt is written to disk at most this often
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const safeEqual = (a, b) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+};
+
+/**
+ * Access control for the proxy. Clients authenticate with either the shared
+ * token or a long-lived device token obtained by redeeming a one-time pairing
+ * code that is printed to the server log. Device tokens are stored hashed.
+ */
+export const createAuth = ({ sharedToken, pairingEnabled, devicesFile }) => {
+  const required = Boolean(sharedToken) || pairingEnabled;
+  let devices = [];
+  let pairingCode = null;
+  let pairingExpiresAt = 0;
+  let failedAttempts = 0;
+  let burnedCodes = 0;          // since the last successful pairing
+  let pairingLockedUntil = 0;
+
+  const load = () => {
+    if (!fs.existsSync(devicesFile)) return;
+    try {
+      devices = JSON.parse(fs.readFileSync(devicesFile, 'utf8'));
+      console.log(`🔐 Auth: loaded ${devices.length} paired devices`);
+    } catch (err) {
+      console.error(`❌ Auth: could not read ${devicesFile}:`, err.message);
+    }
+  };
+
+  const save = () => {
+    fs.mkdirSync(path.dirname(devicesFile), { recursive: true });
+    fs.writeFileSync(devicesFile, JSON.stringify(devices, null, 2));
+  };
+
+  const rotatePairingCode = () => {
+    pairingCode = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    pairingExpiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+    failedAttempts = 0;
+    console.log(`🔑 Auth: pairing code ${pairingCode} (valid for 10 minutes, single use)`);
+  };
+
+  /** Resolves a presented token to `{ id, name }`, or null when it is not valid. */
+  const verifyToken = (token) => {
+    if (!required) return { id: 'anonymous', name: 'Anonymous' };
+    if (!token) return null;
+    if (sharedToken && safeEqual(token, sharedToken)) return { id: 'shared', name: 'Shared token' };
+
+    const hash = hashToken(token);
+    const device = devices.find(d => safeEqual(d.tokenHash, hash));
+    if (!device) return null;
+    const now = Date.now();
+    if (now - (device.lastSeenAt || 0) >= LAST_SEEN_SAVE_MS) {
+      device.lastSeenAt = now;
+      save();
+    }
+    return { id: device.id, name: device.name };
+  };
+
+  /** Redeems the current pairing code for a new device token. */
+  const pair = (code, name) => {
+    if (!pairingEnabled || !pairingCode) return null;
+    if (Date.now() < pairingLockedUntil) return null;
+    if (Date.now() > pairingExpiresAt) {
+      rotatePairingCode();
+      return null;
+    }
+    if (!safeEqual(String(code), pairingCode)) {
+      if (++failedAttempts >= MAX_PAIRING_ATTEMPTS) {
+        const lockoutMs = Math.min(PAIRING_LOCKOUT_BASE_MS * 2 ** burnedCodes++, PAIRING_LOCKOUT_MAX_MS);
+        pairingLockedUntil = Date.now() + lockoutMs;
+        console.warn(`⚠️ Auth: too many wrong pairing attempts, pairing paused for ${Math.round(lockoutMs / 1000)}s`);
+        rotatePairingCode();
+      }
+      return null;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const device = {
+      id: crypto.randomUUID(),
+      name: String(name || 'HUD').slice(0, 64),
+      tokenHash: hashToken(token),
+      createdAt: Date.now(),
+      lastSeenAt: Date.now()
+    };
+    devices.push(device);
+    save();
+    console.log(`📲 Auth: paired device "${device.name}" (${device.id})`);
+    burnedCodes = 0;
+    rotatePairingCode();
+    return { token, deviceId: device.id };
+  };
+
+  const listDevices = () => devices.map(({ tokenHash, ...device }) => device);
+
+  const revokeDevice = (id) => {
+    const before = devices.length;
+    devices = devices.filter(d => d.id !== id);
+    if (devices.length === before) return false;
+    save();
+    console.log(`🚫 Auth: revoked device ${id}`);
+    return true;
+  };
+
+  // Accepts `Authorization: Bearer <token>` and, for WebSocket upgrades that
+  // can't set headers from a browser, a `token` query parameter.
+  const tokenFromRequest = (req) => {
+    const header = req.headers.authorization || '';
+    if (header.startsWith('Bearer ')) return header.slice(7);
+    return new URL(req.url, 'http://localhost').searchParams.get('token');
+  };
+
+  /** Express middleware rejecting unauthenticated requests with 401. */
+  const middleware = (req, res, next) => {
+    const client = verifyToken(tokenFromRequest(req));
+    if (!client) {
+      res.status(401).json({ error: 'unauthorized' });
+      return;
+    }
+    req.client = client;
+    next();
+  };
+
+  load();
+  if (pairingEnabled) rotatePairingCode();
+
+  return { required, pairingEnabled, verifyToken, tokenFromRequest, pair, listDevices, revokeDevice, middleware };
+};
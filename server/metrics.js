@@ -0,0 +1,76 @@
+const RATE_WINDOW_S = 60; // messages/sec is averaged over the last minute
+
+/**
+ * Counters and gauges for /metrics and the health checks. The server reports
+ * events through the `mqtt*` and `ws*` hooks; `state()` feeds the health
+ * checks. Gauges that describe live state (client count, cache size) are not
+ * tracked here: the caller passes them to `render()`.
+ */
+export const createMetrics = () => {
+  const startedAt = Date.now();
+  const counters = { mqttConnects: 0, mqttReconnects: 0, mqttMessages: 0, wsConnections: 0, wsResyncs: 0 };
+  let mqttConnected = false;
+  let lastMessageAt = 0;
+  // Message count per second for the rate window, indexed by epoch second
+  const buckets = new Array(RATE_WINDOW_S).fill(0);
+  const bucketSecond = new Array(RATE_WINDOW_S).fill(0);
+
+  const mqttUp = () => {
+    mqttConnected = true;
+    counters.mqttConnects++;
+  };
+  const mqttDown = () => { mqttConnected = false; };
+  const mqttReconnect = () => { counters.mqttReconnects++; };
+
+  const mqttMessage = (at = Date.now()) => {
+    counters.mqttMessages++;
+    lastMessageAt = at;
+    const second = Math.floor(at / 1000);
+    const i = second % RATE_WINDOW_S;
+    if (bucketSecond[i] !== second) {
+      bucketSecond[i] = second;
+      buckets[i] = 0;
+    }
+    buckets[i]++;
+  };
+
+  const wsConnection = () => { counters.wsConnections++; };
+  const wsResync = () => { counters.wsResyncs++; };
+
+  const messageRate = (now = Date.now()) => {
+    const second = Math.floor(now / 1000);
+    const total = buckets.reduce((sum, count, i) => sum + (second - bucketSecond[i] < RATE_WINDOW_S ? count : 0), 0);
+    return total / RATE_WINDOW_S;
+  };
+
+  /** Seconds since the last MQTT message, or null before the first one. */
+  const lastMessageAge = (now = Date.now()) => lastMessageAt ? (now - lastMessageAt) / 1000 : null;
+
+  const state = () => ({ mqttConnected, lastMessageAge: lastMessageAge(), uptime: (Date.now() - startedAt) / 1000 });
+
+  /** Prometheus text exposition format, with the live values passed in by the caller. */
+  const render = ({ wsClients, topicCacheSize }) => {
+    const lines = [];
+    const metric = (name, type, help, samples) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      samples.forEach(([labels, value]) => lines.push(`${name}${labels} ${value}`));
+    };
+    const age = lastMessageAge();
+
+    metric('hud_up_seconds', 'gauge', 'Seconds since the proxy started.', [['', ((Date.now() - startedAt) / 1000).toFixed(0)]]);
+    metric('hud_mqtt_connected', 'gauge', 'Whether the MQTT broker link is up.', [['', mqttConnected ? 1 : 0]]);
+    metric('hud_mqtt_connects_total', 'counter', 'Successful MQTT connections.', [['', counters.mqttConnects]]);
+    metric('hud_mqtt_reconnects_total', 'counter', 'MQTT reconnect attempts.', [['', counters.mqttReconnects]]);
+    metric('hud_mqtt_messages_total', 'counter', 'MQTT messages received.', [['', counters.mqttMessages]]);
+    metric('hud_mqtt_messages_per_second', 'gauge', `MQTT messages per second over the last ${RATE_WINDOW_S}s.`, [['', messageRate().toFixed(3)]]);
+    metric('hud_mqtt_last_message_age_seconds', 'gauge', 'Seconds since the last MQTT message (NaN before the first).', [['', age === null ? 'NaN' : age.toFixed(1)]]);
+    metric('hud_topic_cache_size', 'gauge', 'Topics held in the proxy cache.', [['', topicCacheSize]]);
+    metric('hud_ws_clients', 'gauge', 'Connected WebSocket clients by protocol version.',
+      Object.entries(wsClients).map(([protocol, count]) => [`{protocol="${protocol}"}`, count]));
+    metric('hud_ws_connections_total', 'counter', 'WebSocket connections accepted, including reconnects.', [['', counters.wsConnections]]);
+    metric('hud_ws_resyncs_total', 'counter', 'Snapshots re-sent after a client detected a gap.', [['', counters.wsResyncs]]);
+    return lines.join('\n') + '\n';
+  };
+
+  return { mqttUp, mqttDown, mqttReconnect, mqttMessage, wsConnection, wsResync, lastMessageAge, state, render };
+};
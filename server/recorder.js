@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+const DRIVING_GEARS = ['D', 'R', 'N'];
+const RECORDING_ID = /^[\w-]+$/;
+// <stamp>_car<id>_<kind>.ndjson, as written by openSegment
+const RECORDING_FILE = /^(\d{8}-\d{6})_car(\d+)_(drive|charge)\.ndjson$/;
+const MAX_REPLAY_GAP_MS = 10 * 1000; // idle stretches are squeezed to this during replay
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 2026-10-19T08:15:30.000Z <-> 20261019-081530 (UTC)
+const fileStamp = (ts) => new Date(ts).toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+const parseStamp = (stamp) => Date.parse(
+  `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}Z`
+);
+
+// A car is recorded while it drives or charges; anything else ends the segment
+const segmentKind = ({ shiftState, state }) => {
+  if (state === 'charging') return 'charge';
+  if (DRIVING_GEARS.includes(shiftState) || state === 'driving') return 'drive';
+  return null;
+};
+
+/**
+ * Records the MQTT stream into NDJSON trip files (one `{ t, topic, data }`
+ * per line), one file per car and drive/charge segment. Each file starts with
+ * the car's cached topics so a replay begins from a complete state.
+ */
+export const createRecorder = ({ dir, topicPrefix, topicCache, enabled }) => {
+  const carsRoot = `${topicPrefix}/cars/`;
+  const cars = new Map(); // car id -> { shiftState, state, segment }
+
+  if (enabled) {
+    fs.mkdirSync(dir, { recursive: true });
+    console.log(`⏺️ Recorder: writing drive and charge segments to ${dir}`);
+  }
+
+  const writeLine = (segment, t, topic, data) => {
+    segment.stream.write(JSON.stringify({ t, topic, data }) + '\n');
+  };
+
+  const closeSegment = (car) => {
+    if (!car.segment) return;
+    car.segment.stream.end();
+    console.log(`⏹️ Recorder: finished ${car.segment.id}`);
+    car.segment = null;
+  };
+
+  const openSegment = (carId, car, kind, t) => {
+    const id = `${fileStamp(t)}_car${carId}_${kind}`;
+    const stream = fs.createWriteStream(path.join(dir, `${id}.ndjson`), { flags: 'a' });
+    car.segment = { id, kind, stream };
+    console.log(`⏺️ Recorder: started ${id}`);
+
+    const carPrefix = `${carsRoot}${carId}/`;
+    topicCache.forEach(({ data, receivedAt }, topic) => {
+      if (topic.startsWith(carPrefix)) writeLine(car.segment, Math.max(receivedAt, t), topic, data);
+    });
+  };
+
+  /** Called for every MQTT message after it has been put into the topic cache. */
+  const record = (topic, data, receivedAt) => {
+    if (!enabled || !topic.startsWith(carsRoot)) return;
+    const [carId, ...rest] = topic.slice(carsRoot.length).split('/');
+    const suffix = rest.join('/');
+
+    const car = cars.get(carId) || { shiftState: '', state: '', segment: null };
+    cars.set(carId, car);
+    if (suffix === 'shift_state') car.shiftState = data;
+    if (suffix === 'state') car.state = data;
+
+    const kind = segmentKind(car);
+    if (kind !== (car.segment?.kind ?? null)) {
+      // The message that ends a segment (e.g. shifting to P) still belongs to it
+      if (car.segment) writeLine(car.segment, receivedAt, topic, data);
+      closeSegment(car);
+      if (kind) {
+        // The opening snapshot already contains this message
+        openSegment(carId, car, kind, receivedAt);
+        return;
+      }
+    }
+
+    if (car.segment) writeLine(car.segment, receivedAt, topic, data);
+  };
+
+  const list = () => {
+    if (!fs.existsSync(dir)) return [];
+    // Other files someone dropped in the directory are not recordings
+    return fs.readdirSync(dir)
+      .map(name => ({ name, match: RECORDING_FILE.exec(name) }))
+      .filter(({ match }) => match)
+      .map(({ name, match: [, stamp, car, kind] }) => {
+        const id = name.slice(0, -'.ndjson'.length);
+        const stat = fs.statSync(path.join(dir, name));
+        return {
+          id,
+          carId: parseInt(car),
+          kind,
+          startedAt: parseStamp(stamp),
+          endedAt: stat.mtimeMs,
+          size: stat.size
+        };
+      })
+      .sort((a, b) => b.startedAt - a.startedAt);
+  };
+
+  const pathFor = (id) => {
+    if (!RECORDING_ID.test(id)) return null;
+    const file = path.join(dir, `${id}.ndjson`);
+    return fs.existsSync(file) ? file : null;
+  };
+
+  /**
+   * Streams a recording as NDJSON proxy messages, paced by the recorded
+   * timestamps divided by `speed`. Messages are stamped with the send time
+   * since, for the HUD, that is when they arrive.
+   */
+  const stream = async (id, speed, res, isClosed) => {
+    const file = pathFor(id);
+    if (!file) return false;
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+    let previousT = null;
+    for await (const line of lines) {
+      if (isClosed()) break;
+      if (!line.trim()) continue;
+      try {
+        const { t, topic, data } = JSON.parse(line);
+        if (previousT !== null && t > previousT) {
+          await sleep(Math.min(t - previousT, MAX_REPLAY_GAP_MS) / speed);
+        }
+        previousT = t;
+        res.write(JSON.stringify({ topic, data, timestamp: Date.now() }) + '\n');
+      } catch {
+        // Skip a torn last line from a recording that is still being written
+      }
+    }
+    lines.close();
+    res.end();
+    return true;
+  };
+
+  return { enabled, record, list, pathFor, stream };
+};
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { SETTING_KEYS, isValidSetting } from '../shared/settingsSchema.js';
+
+export const DEVICE_ID = /^[\w-]{1,64}$/;
+
+// Names the first unknown key or invalid value; `null` marks a key for removal
+const problemWith = (patch) => {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) return 'settings must be an object';
+  const unknown = Object.keys(patch).find(key => !SETTING_KEYS.includes(key));
+  if (unknown) return `unknown setting "${unknown}"`;
+  const invalid = Object.keys(patch).find(key => patch[key] !== null && !isValidSetting(key, patch[key]));
+  return invalid ? `invalid value for "${invalid}"` : null;
+};
+
+const applyPatch = (settings, patch) => {
+  const next = { ...settings };
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  });
+  return next;
+};
+
+/**
+ * Server-side HUD settings: global defaults plus per-device overrides, keyed
+ * by the id each HUD generates for itself. A device's effective settings are
+ * its overrides merged over the defaults.
+ */
+export const createSettingsStore = ({ file }) => {
+  // Devices are keyed by client-chosen ids, so the map has no prototype for
+  // an id like "__proto__" or "constructor" to reach
+  let store = { defaults: {}, devices: Object.create(null) };
+
+  const load = () => {
+    if (!fs.existsSync(file)) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+      store = { defaults: { ...saved.defaults }, devices: Object.assign(Object.create(null), saved.devices) };
+      console.log(`⚙️ Settings: loaded defaults and ${Object.keys(store.devices).length} devices`);
+    } catch (err) {
+      console.error(`❌ Settings: could not read ${file}:`, err.message);
+    }
+  };
+
+  const save = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(store, null, 2));
+  };
+
+  const device = (id) => Object.hasOwn(store.devices, id) ? store.devices[id] : { name: id, settings: {}, lastSeenAt: 0 };
+
+  const getDefaults = () => store.defaults;
+
+  /** Merges `patch` into the defaults. Returns the problem when it is rejected, else null. */
+  const setDefaults = (patch) => {
+    const problem = problemWith(patch);
+    if (problem) return problem;
+    store.defaults = applyPatch(store.defaults, patch);
+    save();
+    return null;
+  };
+
+  const getDevice = (id) => {
+    const { name, settings, lastSeenAt } = device(id);
+    return { id, name, lastSeenAt, settings, effective: { ...store.defaults, ...settings } };
+  };
+
+  /** Merges `patch` into the device's overrides. Returns the problem when it is rejected, else null. */
+  const setDevice = (id, patch) => {
+    const problem = problemWith(patch);
+    if (problem) return problem;
+    const current = device(id);
+    store.devices[id] = { ...current, settings: applyPatch(current.settings, patch) };
+    save();
+    return null;
+  };
+
+  /** Remembers a HUD that connected, so it can be picked before it has any overrides. */
+  const touchDevice = (id, name) => {
+    const current = device(id);
+    store.devices[id] = { ...current, name: name || current.name, lastSeenAt: Date.now() };
+    save();
+  };
+
+  const listDevices = () => Object.keys(store.devices).map(getDevice);
+
+  load();
+
+  return { getDefaults, setDefaults, getDevice, setDevice, touchDevice, listDevices };
+};
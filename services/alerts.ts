@@ -0,0 +1,271 @@
+import { TeslaData } from '../types.ts';
+import { apiFetch } from './auth.ts';
+import { isDriving } from './arrival.ts';
+import { localize, t } from './i18n.ts';
+import { UnitSettings, temperatureLabel, toTemperature } from './units.ts';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type FactValue = number | string | boolean;
+
+export interface AlertCondition {
+  fact: string;           // TeslaData field or one of DERIVED_FACTS
+  op: AlertOperator;
+  value: FactValue;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;           // text, or a message key for the built-in rules
+  message: string;        // "{batteryLevel}" etc. are replaced with the current values
+  severity: AlertSeverity;
+  conditions: AlertCondition[];   // all must hold
+  cooldownSeconds: number;        // minimum time between two firings
+  chime: boolean;
+  enabled: boolean;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  chimeVolume: number;    // 0-100, 0 = muted
+}
+
+export interface ActiveAlert {
+  rule: AlertRule;
+  message: string;
+  firedAt: number;
+}
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+export const ALERT_OPERATORS: AlertOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+
+// Facts the HUD computes on top of TeslaData
+export const DERIVED_FACTS = ['driving', 'offline', 'chargeLimitReached'];
+
+// Facts in °C; thresholds are stored that way and shown in the chosen unit
+export const TEMPERATURE_FACTS = ['outsideTemp', 'insideTemp'];
+
+// Info and warning banners step aside after a while; critical ones stay while the condition holds
+const BANNER_MS: Record<AlertSeverity, number> = { info: 8000, warning: 15000, critical: Infinity };
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'low-battery', name: 'alert.lowBattery.name', message: 'alert.lowBattery.message', severity: 'warning',
+    conditions: [{ fact: 'batteryLevel', op: '<=', value: 15 }], cooldownSeconds: 600, chime: true, enabled: true,
+  },
+  {
+    id: 'unlocked-driving', name: 'alert.unlockedDriving.name', message: 'alert.unlockedDriving.message', severity: 'critical',
+    conditions: [{ fact: 'driving', op: '==', value: true }, { fact: 'isLocked', op: '==', value: false }], cooldownSeconds: 300, chime: true, enabled: true,
+  },
+  {
+    id: 'ice-risk', name: 'alert.iceRisk.name', message: 'alert.iceRisk.message', severity: 'info',
+    conditions: [{ fact: 'outsideTemp', op: '<=', value: 3 }], cooldownSeconds: 3600, chime: false, enabled: true,
+  },
+  {
+    id: 'charge-limit', name: 'alert.chargeLimit.name', message: 'alert.chargeLimit.message', severity: 'info',
+    conditions: [{ fact: 'chargeLimitReached', op: '==', value: true }], cooldownSeconds: 3600, chime: true, enabled: true,
+  },
+  {
+    id: 'offline-driving', name: 'alert.offlineDriving.name', message: 'alert.offlineDriving.message', severity: 'critical',
+    conditions: [{ fact: 'driving', op: '==', value: true }, { fact: 'offline', op: '==', value: true }], cooldownSeconds: 120, chime: true, enabled: true,
+  },
+];
+
+// Saved copies of the built-in rules from before they were translated carry these texts
+const ENGLISH_DEFAULT_TEXTS: Record<string, { name: string; message: string }> = {
+  'low-battery': { name: 'Low battery', message: 'Battery {batteryLevel}%' },
+  'unlocked-driving': { name: 'Unlocked while driving', message: 'Doors unlocked' },
+  'ice-risk': { name: 'Ice risk', message: 'Ice risk · {outsideTemp}°C outside' },
+  'charge-limit': { name: 'Charge limit reached', message: 'Charged to {batteryLevel}%' },
+  'offline-driving': { name: 'Car offline while driving', message: 'Car offline · data not updating' },
+};
+
+/** Switches an unedited saved built-in rule back to its message keys, so it follows the HUD language. */
+export function upgradeAlertRule(rule: AlertRule): AlertRule {
+  const english = ENGLISH_DEFAULT_TEXTS[rule.id];
+  const builtin = DEFAULT_ALERT_RULES.find(d => d.id === rule.id);
+  if (!english || !builtin) return rule;
+  return {
+    ...rule,
+    name: rule.name === english.name ? builtin.name : rule.name,
+    message: rule.message === english.message ? builtin.message : rule.message,
+  };
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: DEFAULT_ALERT_RULES,
+  chimeVolume: 60,
+};
+
+export const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-cyan-600/20 border-cyan-400/60 text-cyan-300 drop-shadow-[0_0_15px_rgba(34,211,238,0.6)]',
+  warning: 'bg-yellow-600/20 border-yellow-500/60 text-yellow-500 drop-shadow-[0_0_15px_rgba(234,179,8,0.7)]',
+  critical: 'bg-red-600/20 border-red-500/60 text-red-500 animate-pulse drop-shadow-[0_0_15px_rgba(239,68,68,0.8)]',
+};
+
+export type AlertFacts = Record<string, FactValue>;
+
+/**
+ * Values rules are evaluated against. Live fields count only once the proxy
+ * has delivered them, so a fresh page doesn't raise "battery 0%"; demo data
+ * has no receive times and is taken as is.
+ */
+export function alertFacts(data: TeslaData, { offline, synthetic }: { offline: boolean; synthetic: boolean }): AlertFacts {
+  const facts: AlertFacts = {};
+  Object.entries(data).forEach(([field, value]) => {
+    if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'boolean') return;
+    if (synthetic || data.updatedAt[field as keyof TeslaData] !== undefined) facts[field] = value;
+  });
+  facts.driving = isDriving(data);
+  facts.offline = offline;
+  // Only while charging, so a parked car above its limit doesn't keep raising it
+  if (facts.batteryLevel !== undefined && data.chargeLimitSoc > 0) {
+    facts.chargeLimitReached = data.isCharging && data.batteryLevel >= data.chargeLimitSoc;
+  }
+  return facts;
+}
+
+function holds({ fact, op, value }: AlertCondition, facts: AlertFacts): boolean {
+  const actual = facts[fact];
+  if (actual === undefined) return false;
+  switch (op) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+  }
+}
+
+// Built-in rules store message keys; they are translated when the alert fires.
+// Temperatures bring their own unit, replacing one written after the
+// placeholder ("{insideTemp}°C") in rules saved before they did.
+const formatMessage = (template: string, facts: AlertFacts, units: UnitSettings) =>
+  localize(template).replace(/\{(\w+)\}(°[CF])?/g, (match, fact, writtenUnit = '') => {
+    const value = facts[fact];
+    if (value === undefined) return match;
+    if (typeof value !== 'number') return `${value}${writtenUnit}`;
+    if (TEMPERATURE_FACTS.includes(fact)) return `${Math.round(toTemperature(value, units))}${temperatureLabel(units)}`;
+    return `${Math.round(value)}${writtenUnit}`;
+  });
+
+/**
+ * Evaluates rules once per clock tick. A rule fires when its conditions
+ * start to hold and its cooldown has passed since it last fired; it stays
+ * active until they stop holding.
+ */
+export class AlertEngine {
+  private lastFiredAt = new Map<string, number>();
+  private active = new Map<string, ActiveAlert>();
+  private holding = new Set<string>();
+
+  /** Returns the alerts that fired on this tick (for the chime). */
+  evaluate(rules: AlertRule[], facts: AlertFacts, at: number, units: UnitSettings): ActiveAlert[] {
+    const fired: ActiveAlert[] = [];
+    const seen = new Set<string>();
+
+    rules.forEach(rule => {
+      seen.add(rule.id);
+      const holdsNow = rule.enabled && rule.conditions.length > 0 && rule.conditions.every(c => holds(c, facts));
+      const wasHolding = this.holding.has(rule.id);
+
+      if (!holdsNow) {
+        this.holding.delete(rule.id);
+        this.active.delete(rule.id);
+        return;
+      }
+      this.holding.add(rule.id);
+
+      const current = this.active.get(rule.id);
+      if (current) {
+        current.message = formatMessage(rule.message, facts, units);
+        return;
+      }
+      if (wasHolding) return; // suppressed by the cooldown when it started
+
+      const last = this.lastFiredAt.get(rule.id);
+      if (last !== undefined && at - last < rule.cooldownSeconds * 1000) return;
+
+      const alert = { rule, message: formatMessage(rule.message, facts, units), firedAt: at };
+      this.lastFiredAt.set(rule.id, at);
+      this.active.set(rule.id, alert);
+      fired.push(alert);
+    });
+
+    // Rules that were removed or replaced
+    [...this.active.keys()].filter(id => !seen.has(id)).forEach(id => this.active.delete(id));
+    return fired;
+  }
+
+  /** Facts the conditions of the currently holding alerts are about, for highlighting their readouts. */
+  alertingFacts(): Set<string> {
+    return new Set([...this.active.values()].flatMap(alert => alert.rule.conditions.map(c => c.fact)));
+  }
+
+  /** Alerts whose banner is still on screen, most severe first. */
+  banners(at: number): ActiveAlert[] {
+    return [...this.active.values()]
+      .filter(alert => at - alert.firedAt < BANNER_MS[alert.rule.severity])
+      .sort((a, b) => ALERT_SEVERITIES.indexOf(b.rule.severity) - ALERT_SEVERITIES.indexOf(a.rule.severity));
+  }
+
+  reset() {
+    this.lastFiredAt.clear();
+    this.active.clear();
+    this.holding.clear();
+  }
+}
+
+/**
+ * Checks untrusted JSON against the AlertRule shape and returns it typed
+ * (with defaults for optional fields), or throws an Error naming the problem.
+ */
+export function validateAlertRule(json: any): AlertRule {
+  if (typeof json !== 'object' || json === null) throw new Error('rule must be an object');
+  if (typeof json.id !== 'string' || !json.id) throw new Error('"id" must be a non-empty string');
+  if (typeof json.name !== 'string' || !json.name) throw new Error(`${json.id}: "name" must be a non-empty string`);
+  if (json.severity !== undefined && !ALERT_SEVERITIES.includes(json.severity)) {
+    throw new Error(`${json.id}: "severity" must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (!Array.isArray(json.conditions) || json.conditions.length === 0) throw new Error(`${json.id}: "conditions" must be a non-empty array`);
+  json.conditions.forEach((c: any, i: number) => {
+    const where = `${json.id}: condition ${i}`;
+    if (typeof c?.fact !== 'string' || !c.fact) throw new Error(`${where}: "fact" must be a non-empty string`);
+    if (!ALERT_OPERATORS.includes(c.op)) throw new Error(`${where}: "op" must be one of ${ALERT_OPERATORS.join(' ')}`);
+    if (!['number', 'string', 'boolean'].includes(typeof c.value)) throw new Error(`${where}: "value" must be a number, string or boolean`);
+  });
+  if (json.cooldownSeconds !== undefined && (typeof json.cooldownSeconds !== 'number' || json.cooldownSeconds < 0)) {
+    throw new Error(`${json.id}: "cooldownSeconds" must be a number >= 0`);
+  }
+
+  return {
+    id: json.id,
+    name: json.name,
+    message: typeof json.message === 'string' ? json.message : json.name,
+    severity: json.severity ?? 'warning',
+    conditions: json.conditions,
+    cooldownSeconds: json.cooldownSeconds ?? 300,
+    chime: json.chime !== false,
+    enabled: json.enabled !== false,
+  };
+}
+
+/** Loads the proxy's alert rules, skipping (and reporting) invalid ones. */
+export async function fetchAlertRules(onInvalid: (msg: string) => void): Promise<AlertRule[]> {
+  const res = await apiFetch('/api/alert-rules');
+  if (!res.ok) return [];
+  const list: unknown[] = await res.json();
+  return list.flatMap(json => {
+    try {
+      return [validateAlertRule(json)];
+    } catch (err: any) {
+      onInvalid(t('log.alertRuleSkipped', { error: err.message }));
+      return [];
+    }
+  });
+}
+
+/** Local rules plus the proxy's; a local rule with the same id overrides the proxy one. */
+export const mergeAlertRules = (local: AlertRule[], proxy: AlertRule[]) =>
+  [...local, ...proxy.filter(rule => !local.some(l => l.id === rule.id))];
@@ -0,0 +1,43 @@
+import { TeslaData } from '../types.ts';
+import { MI_TO_KM } from './units.ts';
+
+export interface ArrivalSettings {
+  reservePercent: number;   // warn when arriving with less than this
+  capacityKwh: number;      // usable battery energy, for the consumption-based estimate
+}
+
+export const DEFAULT_ARRIVAL_SETTINGS: ArrivalSettings = {
+  reservePercent: 10,
+  capacityKwh: 75,
+};
+
+export type ArrivalLevel = 'ok' | 'tight' | 'low';
+
+const TIGHT_MARGIN = 10; // % above the reserve that is shown as a caution
+
+export const DRIVING_GEARS = ['D', 'R', 'N'];
+
+export const isDriving = (data: TeslaData) => DRIVING_GEARS.includes(data.gear);
+
+/**
+ * Arrival SoC from our own recent consumption: today's Wh/km over the
+ * remaining route distance, taken off the current battery level.
+ */
+export function forecastArrivalSoc(data: TeslaData, whPerKm: number | null, settings: ArrivalSettings): number | null {
+  const miles = data.activeRoute?.miles_to_arrival;
+  if (whPerKm === null || !miles || settings.capacityKwh <= 0) return null;
+  const neededKwh = (whPerKm * miles * MI_TO_KM) / 1000;
+  return data.batteryLevel - (neededKwh / settings.capacityKwh) * 100;
+}
+
+export function arrivalLevel(soc: number, settings: ArrivalSettings): ArrivalLevel {
+  if (soc < settings.reservePercent) return 'low';
+  if (soc < settings.reservePercent + TIGHT_MARGIN) return 'tight';
+  return 'ok';
+}
+
+export const ARRIVAL_COLORS: Record<ArrivalLevel, string> = {
+  ok: 'text-green-400',
+  tight: 'text-yellow-500',
+  low: 'text-red-500',
+};
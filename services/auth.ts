@@ -0,0 +1,61 @@
+const TOKEN_KEY = 'hud_auth_token';
+
+export interface AuthInfo {
+  required: boolean;       // proxy rejects requests without a token
+  pairing: boolean;        // proxy accepts pairing codes from its log
+  authenticated: boolean;  // the stored token (if any) is valid
+}
+
+export const getAuthToken = (): string => localStorage.getItem(TOKEN_KEY) || '';
+
+export const setAuthToken = (token: string) => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+/** `fetch` against the proxy with the device token attached. */
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(path, { ...init, headers });
+}
+
+export async function fetchAuthInfo(): Promise<AuthInfo | null> {
+  try {
+    const res = await apiFetch('/api/auth');
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Links this device: a 6-digit entry is redeemed as a pairing code for a
+ * device token, anything else is stored as the proxy's shared token.
+ * Resolves to whether the proxy accepts the resulting token.
+ */
+export async function linkDevice(codeOrToken: string, deviceName: string): Promise<boolean> {
+  const input = codeOrToken.trim();
+
+  if (/^\d{6}$/.test(input)) {
+    const res = await fetch('/api/pair', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: input, name: deviceName }),
+    });
+    if (!res.ok) return false;
+    const { token } = await res.json();
+    setAuthToken(token);
+    return true;
+  }
+
+  const previous = getAuthToken();
+  setAuthToken(input);
+  const info = await fetchAuthInfo();
+  if (!info?.authenticated) {
+    setAuthToken(previous);
+    return false;
+  }
+  return true;
+}
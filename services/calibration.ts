@@ -0,0 +1,127 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Keystone corners are stored as offsets from the screen corners in fractions
+// of the screen size, so a profile survives rotation and resolution changes.
+export type CornerOffsets = [Point, Point, Point, Point]; // TL, TR, BR, BL
+
+export interface Calibration {
+  corners: CornerOffsets;
+  scale: number;      // 1 = fill the screen
+  offsetX: number;    // % of screen width
+  offsetY: number;    // % of screen height
+  rotation: number;   // degrees, clockwise
+}
+
+export interface CalibrationProfile {
+  name: string;
+  calibration: Calibration;
+}
+
+export const IDENTITY_CALIBRATION: Calibration = {
+  corners: [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }],
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+};
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+export const CALIBRATION_LIMITS = {
+  scale: { min: 0.5, max: 1.5, step: 0.01 },
+  offset: { min: -25, max: 25, step: 0.5 },
+  rotation: { min: -15, max: 15, step: 0.5 },
+};
+
+export const isIdentity = (cal: Calibration) =>
+  cal.scale === 1 && cal.offsetX === 0 && cal.offsetY === 0 && cal.rotation === 0 &&
+  cal.corners.every(c => c.x === 0 && c.y === 0);
+
+const baseCorners = (w: number, h: number): Point[] => [
+  { x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h },
+];
+
+/** Keystone target corners in pixels for a `w` x `h` screen. */
+export const cornerPixels = (cal: Calibration, w: number, h: number): Point[] =>
+  baseCorners(w, h).map((p, i) => ({ x: p.x + cal.corners[i].x * w, y: p.y + cal.corners[i].y * h }));
+
+// Solves A·x = b by Gaussian elimination with partial pivoting
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Projective transform (homography) taking the screen rectangle onto the
+ * keystone corners, as [a, b, c, d, e, f, g, h] for
+ * x' = (a·x + b·y + c) / (g·x + h·y + 1), y' = (d·x + e·y + f) / (g·x + h·y + 1).
+ */
+export function homography(w: number, h: number, corners: Point[]): number[] | null {
+  const a: number[][] = [];
+  const b: number[] = [];
+  baseCorners(w, h).forEach(({ x, y }, i) => {
+    const { x: u, y: v } = corners[i];
+    a.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+    b.push(v);
+  });
+  return solve(a, b);
+}
+
+/**
+ * CSS transform for an element covering the whole `w` x `h` screen, to be used
+ * with `transform-origin: 0 0`: keystone first, then scale and rotation about
+ * the centre, then the offset.
+ */
+export function calibrationTransform(cal: Calibration, w: number, h: number): string {
+  const parts = [
+    `translate(${w / 2 + (cal.offsetX / 100) * w}px, ${h / 2 + (cal.offsetY / 100) * h}px)`,
+    `rotate(${cal.rotation}deg)`,
+    `scale(${cal.scale})`,
+    `translate(${-w / 2}px, ${-h / 2}px)`,
+  ];
+  const H = homography(w, h, cornerPixels(cal, w, h));
+  if (H) {
+    const [a, b, c, d, e, f, g, hh] = H;
+    parts.push(`matrix3d(${[a, d, 0, g, b, e, 0, hh, 0, 0, 1, 0, c, f, 0, 1].join(', ')})`);
+  }
+  return parts.join(' ');
+}
+
+/** Where a keystone-space point ends up on screen after scale, rotation and offset. */
+export function toScreen(cal: Calibration, w: number, h: number, p: Point): Point {
+  const rad = cal.rotation * Math.PI / 180;
+  const x = (p.x - w / 2) * cal.scale;
+  const y = (p.y - h / 2) * cal.scale;
+  return {
+    x: w / 2 + (cal.offsetX / 100) * w + x * Math.cos(rad) - y * Math.sin(rad),
+    y: h / 2 + (cal.offsetY / 100) * h + x * Math.sin(rad) + y * Math.cos(rad),
+  };
+}
+
+/** Converts an on-screen drag into the matching movement in keystone space. */
+export function screenDeltaToKeystone(cal: Calibration, dx: number, dy: number): Point {
+  const rad = -cal.rotation * Math.PI / 180;
+  return {
+    x: (dx * Math.cos(rad) - dy * Math.sin(rad)) / cal.scale,
+    y: (dx * Math.sin(rad) + dy * Math.cos(rad)) / cal.scale,
+  };
+}
@@ -0,0 +1,46 @@
+import { AlertSeverity } from './alerts.ts';
+
+// Frequencies (Hz) of the beeps per severity: one soft note, a rising pair, an insistent triple
+const PATTERNS: Record<AlertSeverity, number[]> = {
+  info: [880],
+  warning: [660, 880],
+  critical: [988, 988, 988],
+};
+const BEEP_S = 0.18;
+const GAP_S = 0.08;
+
+let context: AudioContext | null = null;
+
+/**
+ * Browsers only allow audio after a user gesture, so the context is created
+ * (or resumed) from the first tap and reused for every chime.
+ */
+export function unlockAudio() {
+  if (!context) {
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctx) return;
+    context = new Ctx();
+  }
+  if (context.state === 'suspended') context.resume().catch(() => { });
+}
+
+/** Plays the chime for `severity` at `volume` (0-100). Silently does nothing before audio is unlocked. */
+export function playChime(severity: AlertSeverity, volume: number) {
+  if (!context || context.state !== 'running' || volume <= 0) return;
+  const gainPeak = Math.min(volume, 100) / 100 * 0.4;
+
+  PATTERNS[severity].forEach((frequency, i) => {
+    const start = context!.currentTime + i * (BEEP_S + GAP_S);
+    const osc = context!.createOscillator();
+    const gain = context!.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = frequency;
+    // Short attack and release so the beeps don't click
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(gainPeak, start + 0.02);
+    gain.gain.linearRampToValueAtTime(0, start + BEEP_S);
+    osc.connect(gain).connect(context!.destination);
+    osc.start(start);
+    osc.stop(start + BEEP_S + 0.01);
+  });
+}
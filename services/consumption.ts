@@ -0,0 +1,59 @@
+interface Segment {
+  km: number;
+  kwh: number;
+}
+
+const MAX_SAMPLE_GAP_MS = 30 * 1000; // longer gaps (sleep, lost link) are not integrated
+const MIN_DISTANCE_KM = 0.1;         // below this a Wh/km figure is mostly noise
+
+/**
+ * Integrates power (kW) and speed (km/h) samples into driven distance and
+ * energy, keeping the most recent `maxKm` so consumption can be averaged
+ * over the last few kilometres.
+ */
+export class ConsumptionTracker {
+  private segments: Segment[] = [];
+  private lastSampleAt: number | null = null;
+
+  constructor(private maxKm = 20) { }
+
+  sample(powerKw: number, speedKmh: number, at: number) {
+    if (this.lastSampleAt !== null) {
+      const elapsed = at - this.lastSampleAt;
+      if (elapsed > 0 && elapsed <= MAX_SAMPLE_GAP_MS) {
+        const hours = elapsed / 3600000;
+        this.segments.push({ km: speedKmh * hours, kwh: powerKw * hours });
+        this.trim();
+      }
+    }
+    this.lastSampleAt = at;
+  }
+
+  /** Stops integrating until the next sample, e.g. while parked. */
+  pause() {
+    this.lastSampleAt = null;
+  }
+
+  reset() {
+    this.segments = [];
+    this.lastSampleAt = null;
+  }
+
+  /** Average consumption over the last `km` driven, or null with too little data. */
+  whPerKm(km: number): number | null {
+    let distance = 0;
+    let energy = 0;
+    for (let i = this.segments.length - 1; i >= 0 && distance < km; i--) {
+      distance += this.segments[i].km;
+      energy += this.segments[i].kwh;
+    }
+    return distance >= MIN_DISTANCE_KM ? (energy * 1000) / distance : null;
+  }
+
+  private trim() {
+    let total = this.segments.reduce((sum, s) => sum + s.km, 0);
+    while (this.segments.length > 1 && total - this.segments[0].km >= this.maxKm) {
+      total -= this.segments.shift()!.km;
+    }
+  }
+}
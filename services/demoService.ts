@@ -1,4 +1,6 @@
-import { TeslaData } from '../types.ts';
+import { TeslaData, INITIAL_DATA } from '../types.ts';
+import { apiFetch } from './auth.ts';
+import { localize, t } from './i18n.ts';
 
 // Each keyframe defines the full target state at a given time (seconds)
 // Values are linearly interpolated between keyframes every 100ms
@@ -6,7 +8,15 @@ import { TeslaData } from '../types.ts';
 export interface DemoKeyframe {
     t: number; // time in seconds
     data: Partial<TeslaData>;
-    label: string; // human-readable scene description
+    label: string; // scene description, or a message key for the built-in scenes
+}
+
+// A named keyframe sequence; extra ones are JSON files served by the proxy
+export interface DemoScenario {
+    id: string;
+    name: string;
+    description?: string;
+    keyframes: DemoKeyframe[];
 }
 
 const TOMORROW_NOON = (() => {
@@ -16,48 +26,63 @@ const TOMORROW_NOON = (() => {
     return d.toISOString();
 })();
 
+// Tire pressures (bar); the rear left slowly loses air in the last scenes
+const DEMO_TIRES: Partial<TeslaData> = {
+    tpms_front_left: 2.9, tpms_front_right: 2.9,
+    tpms_rear_left: 2.9, tpms_rear_right: 2.9,
+};
+const DEMO_TIRES_LOW: Partial<TeslaData> = { ...DEMO_TIRES, tpms_rear_left: 2.2 };
+
 export const DEMO_KEYFRAMES: DemoKeyframe[] = [
     // ── Scene 1: Parked at home ──────────────────────────────────────────────
     {
         t: 0,
-        label: 'Parked – full battery',
+        label: 'demo.scene.parkedFull',
         data: {
+            ...DEMO_TIRES,
             speed: 0, power: 0, gear: 'P',
             batteryLevel: 88, range: 410,
             outsideTemp: 4, insideTemp: 19,
             heading: 0, state: 'online',
+            latitude: 52.2600, longitude: 4.7600,
             destination: '', activeRoute: null,
         },
     },
     // ── Scene 2: Shift D, accelerate – city driving ──────────────────────────
     {
         t: 5,
-        label: 'City driving',
+        label: 'demo.scene.city',
         data: {
+            ...DEMO_TIRES,
             speed: 0, power: 0, gear: 'D',
             batteryLevel: 88, range: 410,
             outsideTemp: 4, heading: 42,
+            latitude: 52.2600, longitude: 4.7600,
             destination: '', activeRoute: null,
         },
     },
     {
         t: 8,
-        label: 'City driving – accelerating',
+        label: 'demo.scene.cityAccelerating',
         data: {
+            ...DEMO_TIRES,
             speed: 52, power: 45, gear: 'D',
             batteryLevel: 87, range: 408,
             outsideTemp: 4, heading: 42,
+            latitude: 52.2652, longitude: 4.7683,
             destination: '', activeRoute: null,
         },
     },
     // ── Scene 3: Navigation active – highway ─────────────────────────────────
     {
         t: 12,
-        label: 'Navigation – highway',
+        label: 'demo.scene.highway',
         data: {
+            ...DEMO_TIRES,
             speed: 122, power: 28, gear: 'D',
             batteryLevel: 85, range: 395,
             outsideTemp: 5, heading: 87,
+            latitude: 52.2934, longitude: 4.8012,
             destination: 'Amsterdam Centraal',
             activeRoute: {
                 destination: 'Amsterdam Centraal',
@@ -72,11 +97,13 @@ export const DEMO_KEYFRAMES: DemoKeyframe[] = [
     },
     {
         t: 17,
-        label: 'Navigation – cruising',
+        label: 'demo.scene.cruising',
         data: {
+            ...DEMO_TIRES,
             speed: 130, power: 22, gear: 'D',
             batteryLevel: 80, range: 370,
             outsideTemp: 5, heading: 91,
+            latitude: 52.3318, longitude: 4.8471,
             destination: 'Amsterdam Centraal',
             activeRoute: {
                 destination: 'Amsterdam Centraal',
@@ -92,11 +119,13 @@ export const DEMO_KEYFRAMES: DemoKeyframe[] = [
     // ── Scene 4: Regen braking ───────────────────────────────────────────────
     {
         t: 22,
-        label: 'Regen braking',
+        label: 'demo.scene.regen',
         data: {
+            ...DEMO_TIRES,
             speed: 30, power: -38, gear: 'D',
             batteryLevel: 79, range: 366,
             outsideTemp: 5, heading: 105,
+            latitude: 52.3605, longitude: 4.8790,
             destination: 'Amsterdam Centraal',
             activeRoute: {
                 destination: 'Amsterdam Centraal',
@@ -112,32 +141,38 @@ export const DEMO_KEYFRAMES: DemoKeyframe[] = [
     // ── Scene 5: Low battery alert ───────────────────────────────────────────
     {
         t: 26,
-        label: 'Low battery',
+        label: 'demo.scene.lowBattery',
         data: {
+            ...DEMO_TIRES_LOW,
             speed: 0, power: 0, gear: 'P',
             batteryLevel: 18, range: 62,
             outsideTemp: 7, heading: 0,
+            latitude: 52.3791, longitude: 4.8997,
             destination: '', activeRoute: null,
         },
     },
     // ── Scene 6: Reverse + park ──────────────────────────────────────────────
     {
         t: 28,
-        label: 'Reversing',
+        label: 'demo.scene.reversing',
         data: {
+            ...DEMO_TIRES_LOW,
             speed: 8, power: 12, gear: 'R',
             batteryLevel: 18, range: 62,
             outsideTemp: 7, heading: 270,
+            latitude: 52.3791, longitude: 4.8997,
             destination: '', activeRoute: null,
         },
     },
     {
         t: 30,
-        label: 'Parked',
+        label: 'demo.scene.parked',
         data: {
+            ...DEMO_TIRES_LOW,
             speed: 0, power: 0, gear: 'P',
             batteryLevel: 18, range: 62,
             outsideTemp: 7, heading: 0,
+            latitude: 52.3791, longitude: 4.8997,
             destination: '', activeRoute: null,
         },
     },
@@ -145,14 +180,96 @@ export const DEMO_KEYFRAMES: DemoKeyframe[] = [
 
 export const DEMO_DURATION = 30; // seconds
 
+export const BUILTIN_SCENARIO: DemoScenario = {
+    id: 'builtin',
+    name: 'demo.builtin.name',
+    description: 'demo.builtin.description',
+    keyframes: DEMO_KEYFRAMES,
+};
+
+export const DEMO_SPEEDS = [0.5, 1, 2, 4];
+
+/** Length of a scenario in seconds (time of its last keyframe). */
+export const scenarioDuration = (scenario: DemoScenario) =>
+    scenario.keyframes[scenario.keyframes.length - 1]?.t ?? 0;
+
+// ── Scenario loading ───────────────────────────────────────────────────────
+
+function checkFieldType(key: string, value: unknown): string | null {
+    if (!Object.hasOwn(INITIAL_DATA, key) || key === 'updatedAt') return `unknown field "${key}"`;
+    const expected = (INITIAL_DATA as any)[key];
+    if (key === 'activeRoute') {
+        return value === null || (typeof value === 'object' && !Array.isArray(value)) ? null : `"${key}" must be an object or null`;
+    }
+    if (key === 'custom') {
+        return typeof value === 'object' && value !== null ? null : `"${key}" must be an object`;
+    }
+    return typeof value === typeof expected ? null : `"${key}" must be a ${typeof expected}`;
+}
+
+/**
+ * Checks untrusted JSON against the DemoScenario/DemoKeyframe shape and
+ * returns it typed, or throws an Error naming the first problem found.
+ */
+export function validateScenario(json: any): DemoScenario {
+    if (typeof json !== 'object' || json === null) throw new Error('scenario must be an object');
+    if (typeof json.id !== 'string' || !json.id) throw new Error('"id" must be a non-empty string');
+    if (typeof json.name !== 'string' || !json.name) throw new Error(`${json.id}: "name" must be a non-empty string`);
+    if (!Array.isArray(json.keyframes) || json.keyframes.length === 0) throw new Error(`${json.id}: "keyframes" must be a non-empty array`);
+
+    let previousT = -Infinity;
+    json.keyframes.forEach((kf: any, i: number) => {
+        const where = `${json.id}: keyframe ${i}`;
+        if (typeof kf?.t !== 'number' || kf.t < 0) throw new Error(`${where}: "t" must be a number >= 0`);
+        if (kf.t < previousT) throw new Error(`${where}: keyframes must be in time order`);
+        if (typeof kf.label !== 'string') throw new Error(`${where}: "label" must be a string`);
+        if (typeof kf.data !== 'object' || kf.data === null) throw new Error(`${where}: "data" must be an object`);
+        Object.entries(kf.data).forEach(([key, value]) => {
+            const problem = checkFieldType(key, value);
+            if (problem) throw new Error(`${where}: ${problem}`);
+        });
+        previousT = kf.t;
+    });
+
+    return json as DemoScenario;
+}
+
+/** Loads the proxy's scenarios, skipping (and reporting) invalid ones. */
+export async function fetchScenarios(onInvalid: (msg: string) => void): Promise<DemoScenario[]> {
+    const res = await apiFetch('/api/scenarios');
+    if (!res.ok) return [];
+    const list: unknown[] = await res.json();
+
+    const scenarios: DemoScenario[] = [];
+    list.forEach(json => {
+        try {
+            scenarios.push(validateScenario(json));
+        } catch (err: any) {
+            onInvalid(t('log.scenarioSkipped', { error: err.message }));
+        }
+    });
+    return scenarios;
+}
+
 // ── Interpolation helpers ──────────────────────────────────────────────────
 
 function lerp(a: number, b: number, t: number): number {
     return a + (b - a) * t;
 }
 
+function decimals(n: number): number {
+    return (String(n).split('.')[1] ?? '').length;
+}
+
 function interpolateField(a: any, b: any, t: number): any {
-    if (typeof a === 'number' && typeof b === 'number') return Math.round(lerp(a, b, t));
+    if (typeof a === 'number' && typeof b === 'number') {
+        const value = lerp(a, b, t);
+        // Whole-number fields stay whole, fractional ones keep the finer precision
+        // of the two frames, but at least one decimal (e.g. tire bar)
+        if (Number.isInteger(a) && Number.isInteger(b)) return Math.round(value);
+        const factor = 10 ** Math.max(1, decimals(a), decimals(b));
+        return Math.round(value * factor) / factor;
+    }
     // For non-numeric fields, snap at the halfway point
     return t < 0.5 ? a : b;
 }
@@ -161,12 +278,10 @@ function interpolateField(a: any, b: any, t: number): any {
  * Returns the interpolated TeslaData at `elapsedSeconds` by finding the
  * surrounding keyframes and lerping the numeric fields between them.
  */
-export function getDemoState(elapsedSeconds: number): Partial<TeslaData> {
-    const kf = DEMO_KEYFRAMES;
-
+export function getDemoState(elapsedSeconds: number, kf: DemoKeyframe[] = DEMO_KEYFRAMES): Partial<TeslaData> {
     // Clamp
-    if (elapsedSeconds <= kf[0].t) return kf[0].data;
-    if (elapsedSeconds >= kf[kf.length - 1].t) return kf[kf.length - 1].data;
+    if (elapsedSeconds <= kf[0].t) return { ...kf[0].data };
+    if (elapsedSeconds >= kf[kf.length - 1].t) return { ...kf[kf.length - 1].data };
 
     // Find surrounding keyframes
     let prev = kf[0];
@@ -197,12 +312,12 @@ export function getDemoState(elapsedSeconds: number): Partial<TeslaData> {
     return result;
 }
 
-/** Returns the current scene label for display during demo */
-export function getDemoLabel(elapsedSeconds: number): string {
-    let label = DEMO_KEYFRAMES[0].label;
-    for (const kf of DEMO_KEYFRAMES) {
+/** Returns the current scene label for display during demo, translated when it is a message key */
+export function getDemoLabel(elapsedSeconds: number, keyframes: DemoKeyframe[] = DEMO_KEYFRAMES): string {
+    let label = keyframes[0].label;
+    for (const kf of keyframes) {
         if (elapsedSeconds >= kf.t) label = kf.label;
         else break;
     }
-    return label;
+    return localize(label);
 }
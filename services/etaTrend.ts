@@ -0,0 +1,73 @@
+import { t } from './i18n.ts';
+
+export const ETA_SHIFT_THRESHOLD_MIN = 5;   // shifts at least this large are highlighted
+export const ETA_SHIFT_HIGHLIGHT_MS = 15 * 1000;
+const TREND_WINDOW_MIN = 5;                 // the trend covers this much of the route
+const MIN_TREND_MIN = 1;                    // smaller drifts read as "steady"
+
+interface EtaSample {
+  at: number;
+  arrival: number;   // epoch ms
+}
+
+export interface EtaShift {
+  minutes: number;   // positive = arriving later
+  at: number;
+}
+
+/**
+ * Follows the predicted arrival time of the active route, fed once per clock
+ * tick. Small changes add up against a baseline until they cross the
+ * threshold, so a slow drift is reported as well as a sudden jump.
+ */
+export class EtaTracker {
+  private destination = '';
+  private baseline: number | null = null;
+  private samples: EtaSample[] = [];
+  private lastShift: EtaShift | null = null;
+
+  update(estArrivalTime: string, destination: string, at: number) {
+    const arrival = estArrivalTime ? Date.parse(estArrivalTime) : NaN;
+    if (isNaN(arrival) || destination !== this.destination) {
+      this.reset();
+      this.destination = destination;
+    }
+    if (isNaN(arrival)) return;
+
+    if (this.baseline === null) {
+      this.baseline = arrival;
+    } else {
+      const minutes = (arrival - this.baseline) / 60000;
+      if (Math.abs(minutes) >= ETA_SHIFT_THRESHOLD_MIN) {
+        this.lastShift = { minutes, at };
+        this.baseline = arrival;
+      }
+    }
+
+    this.samples.push({ at, arrival });
+    while (this.samples.length > 1 && at - this.samples[0].at > TREND_WINDOW_MIN * 60000) this.samples.shift();
+  }
+
+  reset() {
+    this.destination = '';
+    this.baseline = null;
+    this.samples = [];
+    this.lastShift = null;
+  }
+
+  /** The last shift past the threshold while it is still worth highlighting. */
+  shift(at: number): EtaShift | null {
+    return this.lastShift && at - this.lastShift.at < ETA_SHIFT_HIGHLIGHT_MS ? this.lastShift : null;
+  }
+
+  /** Minutes the arrival time moved over the last TREND_WINDOW_MIN minutes, 0 when steady. */
+  trend(): number {
+    if (this.samples.length < 2) return 0;
+    const minutes = (this.samples[this.samples.length - 1].arrival - this.samples[0].arrival) / 60000;
+    return Math.abs(minutes) >= MIN_TREND_MIN ? minutes : 0;
+  }
+}
+
+/** "+6 min" / "-3 min" */
+export const formatEtaDelta = (minutes: number) =>
+  `${minutes > 0 ? '+' : '-'}${Math.abs(Math.round(minutes))} ${t('common.minutes')}`;
@@ -0,0 +1,57 @@
+import { TeslaData } from '../types.ts';
+import { MessageKey, t } from './i18n.ts';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const COMPASS_POINTS: MessageKey[] = ['compass.N', 'compass.NE', 'compass.E', 'compass.SE', 'compass.S', 'compass.SW', 'compass.W', 'compass.NW'];
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+/** Wraps any angle into [0, 360). */
+export const normalizeDegrees = (deg: number) => ((deg % 360) + 360) % 360;
+
+/** Signed difference b - a in (-180, 180], e.g. for "turn left/right" offsets. */
+export const angleDelta = (a: number, b: number) => {
+  const delta = normalizeDegrees(b - a);
+  return delta > 180 ? delta - 360 : delta;
+};
+
+// The car reports 0/0 until it has a GPS fix
+export const hasPosition = (data: TeslaData) => data.latitude !== 0 || data.longitude !== 0;
+
+export const carPosition = (data: TeslaData): LatLng | null =>
+  hasPosition(data) ? { latitude: data.latitude, longitude: data.longitude } : null;
+
+/** Great-circle (haversine) distance in km. */
+export function distanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Initial great-circle bearing from `from` to `to`, degrees clockwise from north. */
+export function bearingDegrees(from: LatLng, to: LatLng): number {
+  const lat1 = toRad(from.latitude);
+  const lat2 = toRad(to.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return normalizeDegrees(toDeg(Math.atan2(y, x)));
+}
+
+/** Bearing and straight-line distance from the car to the active route's destination. */
+export function destinationVector(data: TeslaData): { bearing: number; distanceKm: number } | null {
+  const from = carPosition(data);
+  const to = data.activeRoute?.location;
+  if (!from || !to) return null;
+  return { bearing: bearingDegrees(from, to), distanceKm: distanceKm(from, to) };
+}
+
+export const compassPoint = (deg: number) => t(COMPASS_POINTS[Math.round(normalizeDegrees(deg) / 45) % 8]);
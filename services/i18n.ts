@@ -0,0 +1,63 @@
+import en, { Messages } from '../locales/en.ts';
+import de from '../locales/de.ts';
+import nl from '../locales/nl.ts';
+
+export type Language = 'en' | 'de' | 'nl';
+export type MessageKey = keyof Messages;
+
+const LANGUAGE_KEY = 'hud_language';
+
+const CATALOGS: Record<Language, Messages> = { en, de, nl };
+
+/** Picker entries, each named in its own language. */
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'nl', label: 'Nederlands' },
+];
+
+const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.hasOwn(CATALOGS, value);
+
+/** First of the browser's preferred languages we have a catalog for, else English. */
+export function detectLanguage(preferred: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []): Language {
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+}
+
+/** The stored choice; empty means follow the browser. */
+export const getLanguageSetting = (): Language | '' => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LANGUAGE_KEY) : null;
+  return isLanguage(stored) ? stored : '';
+};
+
+let current: Language = getLanguageSetting() || detectLanguage();
+
+export const getLanguage = (): Language => current;
+
+/**
+ * Stores the choice ('' = detect) and switches the catalog used by `t`.
+ * Components read strings while rendering, so the caller re-renders after.
+ */
+export function setLanguage(setting: Language | '') {
+  if (setting) localStorage.setItem(LANGUAGE_KEY, setting);
+  else localStorage.removeItem(LANGUAGE_KEY);
+  current = setting || detectLanguage();
+}
+
+/** The message for `key` in the current language, with `{name}` placeholders filled from `params`. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = CATALOGS[current][key] ?? en[key] ?? key;
+  return message.replace(/\{(\w+)\}/g, (match, name) => Object.hasOwn(params, name) ? String(params[name]) : match);
+}
+
+/**
+ * Translates `text` when it is a catalog key and returns it unchanged
+ * otherwise, for labels that are either built in (demo scenes, default
+ * alert rules) or user-provided (custom demo scenarios, own alert rules).
+ */
+export const localize = (text: string): string =>
+  Object.hasOwn(en, text) ? t(text as MessageKey) : text;
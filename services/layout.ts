@@ -0,0 +1,61 @@
+import { MessageKey } from './i18n.ts';
+import { WIDGET_IDS } from '../shared/settingsSchema.js';
+
+// The list is shared with the proxy, which checks synced layouts against it
+export type WidgetId = typeof WIDGET_IDS[number];
+
+// `left`/`right` flank the speed (landscape) or sit below it (portrait);
+// the info slots form a row of smaller readouts under the speed.
+export type LayoutSlot = 'left' | 'right' | 'info1' | 'info2' | 'info3';
+
+export type HudLayout = Record<LayoutSlot, WidgetId>;
+
+export interface LayoutPreset {
+  name: string;
+  layout: HudLayout;
+  builtin?: boolean;
+  label?: MessageKey;     // display name of the built-in presets
+}
+
+export const LAYOUT_SLOTS: { slot: LayoutSlot; label: MessageKey }[] = [
+  { slot: 'left', label: 'layout.left' },
+  { slot: 'right', label: 'layout.right' },
+  { slot: 'info1', label: 'layout.info1' },
+  { slot: 'info2', label: 'layout.info2' },
+  { slot: 'info3', label: 'layout.info3' },
+];
+
+export const INFO_SLOTS: LayoutSlot[] = ['info1', 'info2', 'info3'];
+
+export const DEFAULT_LAYOUT: HudLayout = {
+  left: 'range', right: 'gearPower', info1: 'none', info2: 'none', info3: 'none',
+};
+
+export const BUILTIN_PRESETS: LayoutPreset[] = [
+  { name: 'default', builtin: true, label: 'layout.preset.default', layout: DEFAULT_LAYOUT },
+  {
+    name: 'minimal', builtin: true, label: 'layout.preset.minimal',
+    layout: { left: 'none', right: 'gear', info1: 'none', info2: 'none', info3: 'none' },
+  },
+  {
+    name: 'touring', builtin: true, label: 'layout.preset.touring',
+    layout: { left: 'range', right: 'gearPower', info1: 'outsideTemp', info2: 'compass', info3: 'bearing' },
+  },
+  {
+    name: 'commute', builtin: true, label: 'layout.preset.commute',
+    layout: { left: 'battery', right: 'gearPower', info1: 'geofence', info2: 'tripComputer', info3: 'isLocked' },
+  },
+];
+
+/** Fills slots missing from a stored layout (e.g. saved by an older version). */
+export const normalizeLayout = (layout: Partial<HudLayout> | null | undefined): HudLayout => ({
+  ...DEFAULT_LAYOUT,
+  ...layout,
+});
+
+export const sameLayout = (a: HudLayout, b: HudLayout) =>
+  LAYOUT_SLOTS.every(({ slot }) => a[slot] === b[slot]);
+
+/** Whether any slot shows the power reading (portrait then adds the horizontal power bar). */
+export const layoutShowsPower = (layout: HudLayout) =>
+  LAYOUT_SLOTS.some(({ slot }) => layout[slot] === 'power' || layout[slot] === 'gearPower');
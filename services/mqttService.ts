@@ -1,20 +1,55 @@
 
-import { TeslaData, MqttConfig, ConnectionStatus } from '../types.ts';
+import { TeslaData, MqttConfig, ConnectionStatus, ConnectionState, TopicMapping, FieldTimestamps, INITIAL_CONNECTION_STATUS } from '../types.ts';
+import { buildTopicMap, applyTopicMapping } from './topicMap.ts';
+import { getAuthToken } from './auth.ts';
+import { t } from './i18n.ts';
+import { ControlMessage, getDeviceId, getDeviceName } from './settingsSync.ts';
+
+// Proxy protocol spoken by this client; older proxies ignore the query
+// parameter and keep sending legacy one-message-per-topic payloads.
+const PROTOCOL_VERSION = 2;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// The proxy pings every 15s; allow two to go missing before giving up on the link
+const HEARTBEAT_TIMEOUT_MS = 40000;
+
+export interface TopicMessage {
+  topic: string;
+  data: string;
+  timestamp?: number;
+}
 
 export class MqttService {
   private ws: WebSocket | null = null;
+  private config: MqttConfig | null = null;
+  private carId: number | null = null;
+  // Last raw payload and receive time per topic, for every car, so switching cars is instant
+  private topicCache = new Map<string, { data: string; timestamp: number }>();
+  private topicMap: Map<string, TopicMapping> = buildTopicMap();
+  private customValues: Record<string, unknown> = {};
+  private fieldTimestamps: FieldTimestamps = {};
+  private lastSeq: number | null = null;
+  private resyncPending = false;
+  private heartbeatSeen = false;
+  private status: ConnectionStatus = { ...INITIAL_CONNECTION_STATUS };
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private watchdogTimer?: ReturnType<typeof setTimeout>;
   private onDataUpdate: (data: Partial<TeslaData>) => void;
   private onLog: (msg: string) => void;
   private onStatusChange?: (status: ConnectionStatus) => void;
+  private onControl?: (msg: ControlMessage) => void;
 
   constructor(
     onDataUpdate: (data: Partial<TeslaData>) => void,
     onLog: (msg: string) => void,
-    onStatusChange?: (status: ConnectionStatus) => void
+    onStatusChange?: (status: ConnectionStatus) => void,
+    onControl?: (msg: ControlMessage) => void
   ) {
     this.onDataUpdate = onDataUpdate;
     this.onLog = onLog;
     this.onStatusChange = onStatusChange;
+    this.onControl = onControl;
   }
 
   private log(msg: string) {
@@ -24,12 +59,148 @@ export class MqttService {
     this.onLog(formattedMsg);
   }
 
-  connect(config: MqttConfig) {
-    if (this.ws) {
-      this.ws.close();
+  private carPrefix(): string {
+    return `${this.config?.topicPrefix}/cars/${this.carId}`;
+  }
+
+  /**
+   * Switches the car whose topics are forwarded to `onDataUpdate`, without
+   * touching the socket. Cached values of the new car are replayed at once.
+   */
+  selectCar(carId: number) {
+    if (carId === this.carId) return;
+    this.carId = carId;
+    this.customValues = {};
+    this.fieldTimestamps = {};
+    this.log(t('mqtt.switchedCar', { carId }));
+
+    const prefix = `${this.carPrefix()}/`;
+    const updates: Partial<TeslaData> = {};
+    this.topicCache.forEach(({ data, timestamp }, topic) => {
+      if (topic.startsWith(prefix)) Object.assign(updates, this.parseMessage(topic, data, timestamp));
+    });
+    if (Object.keys(updates).length > 0) {
+      this.onDataUpdate(updates);
+    }
+  }
+
+  private parseMessage(topic: string, data: string, timestamp: number): Partial<TeslaData> {
+    const mapping = this.topicMap.get(topic.slice(this.carPrefix().length + 1));
+    if (!mapping) return {};
+
+    const updates = applyTopicMapping(mapping, data);
+    if (updates.custom) {
+      // Custom values accumulate so a single topic update doesn't wipe the others
+      this.customValues = { ...this.customValues, ...updates.custom };
+      updates.custom = this.customValues;
     }
 
-    let wsUrl = config.proxyUrl || '';
+    // Same for receive times: every field touched by this topic is as old as the message
+    const touched = Object.fromEntries(Object.keys(updates).map(field => [field, timestamp]));
+    this.fieldTimestamps = { ...this.fieldTimestamps, ...touched };
+    updates.updatedAt = this.fieldTimestamps;
+    return updates;
+  }
+
+  /**
+   * Caches a batch of topic messages and emits one combined update for the
+   * current car. Public so recorded trips can be fed through the same path.
+   */
+  ingest(messages: TopicMessage[]) {
+    const prefix = `${this.carPrefix()}/`;
+    const updates: Partial<TeslaData> = {};
+    messages.forEach(({ topic, data, timestamp = Date.now() }) => {
+      this.topicCache.set(topic, { data, timestamp });
+      if (topic.startsWith(prefix)) Object.assign(updates, this.parseMessage(topic, data, timestamp));
+    });
+    if (Object.keys(updates).length > 0) {
+      this.onDataUpdate(updates);
+    }
+  }
+
+  private requestResync() {
+    if (this.resyncPending || this.ws?.readyState !== WebSocket.OPEN) return;
+    this.resyncPending = true;
+    this.ws.send(JSON.stringify({ type: 'resync' }));
+  }
+
+  private setStatus(changes: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.onStatusChange?.(this.status);
+  }
+
+  private clearTimers() {
+    clearTimeout(this.retryTimer);
+    clearTimeout(this.watchdogTimer);
+    this.retryTimer = undefined;
+    this.watchdogTimer = undefined;
+  }
+
+  /** Detaches and closes the current socket so its late events can't trigger anything. */
+  private dropSocket() {
+    if (!this.ws) return;
+    this.ws.onopen = this.ws.onmessage = this.ws.onclose = this.ws.onerror = null;
+    this.ws.close();
+    this.ws = null;
+  }
+
+  /**
+   * Schedules the next connection attempt with exponential backoff and full
+   * jitter, so several HUDs don't hammer a recovering proxy in lockstep.
+   */
+  private scheduleReconnect(state: ConnectionState = 'disconnected') {
+    this.clearTimers();
+    const attempt = this.status.attempt + 1;
+    const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+
+    this.log(t('mqtt.retrying', { seconds: Math.round(delay / 1000), attempt }));
+    this.setStatus({ state, attempt, retryAt: Date.now() + delay });
+    this.retryTimer = setTimeout(() => this.open(), delay);
+  }
+
+  /**
+   * Once the proxy has shown it sends heartbeats, silence longer than the
+   * timeout means a half-open link (e.g. a car hotspot dropping out).
+   */
+  private armWatchdog() {
+    clearTimeout(this.watchdogTimer);
+    if (!this.heartbeatSeen) return;
+    this.watchdogTimer = setTimeout(() => {
+      this.log(t('mqtt.heartbeatLost'));
+      this.dropSocket();
+      this.scheduleReconnect('stale');
+    }, HEARTBEAT_TIMEOUT_MS);
+  }
+
+  /** Prepares parsing for `config` without opening a socket (used for replays). */
+  attach(config: MqttConfig) {
+    this.clearTimers();
+    this.dropSocket();
+
+    this.config = config;
+    this.carId = config.carId;
+    this.topicCache.clear();
+    this.topicMap = buildTopicMap(config.topicMap);
+    this.customValues = {};
+    this.fieldTimestamps = {};
+    this.status = { ...INITIAL_CONNECTION_STATUS };
+  }
+
+  connect(config: MqttConfig) {
+    this.attach(config);
+    this.open();
+  }
+
+  private open() {
+    if (!this.config) return;
+    this.clearTimers();
+    this.dropSocket();
+    this.lastSeq = null;
+    this.resyncPending = false;
+    this.heartbeatSeen = false;
+
+    let wsUrl = this.config.proxyUrl || '';
 
     if (!wsUrl) {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -43,95 +214,72 @@ export class MqttService {
       }
     }
 
-    this.log(`Attempting connection: ${wsUrl}`);
-    this.onStatusChange?.('connecting');
+    wsUrl += `${wsUrl.includes('?') ? '&' : '?'}protocol=${PROTOCOL_VERSION}`;
+    // Lets the proxy push this device's settings and remote-control commands
+    wsUrl += `&device=${encodeURIComponent(getDeviceId())}&name=${encodeURIComponent(getDeviceName())}`;
+    const displayUrl = wsUrl;
+    // Browsers can't set headers on WebSocket upgrades, so the token rides in the query
+    const token = getAuthToken();
+    if (token) wsUrl += `&token=${encodeURIComponent(token)}`;
+
+    this.log(t('mqtt.connecting', { url: displayUrl }));
+    this.setStatus({ state: 'connecting', retryAt: null });
 
     try {
       this.ws = new WebSocket(wsUrl);
 
       this.ws.onopen = () => {
-        this.log('✅ Linked to HUD Proxy Server');
-        this.onStatusChange?.('connected');
+        this.log(t('mqtt.linked'));
+        this.setStatus({ state: 'connected', retryAt: null });
       };
 
       this.ws.onmessage = (event) => {
+        // Only traffic proves the link works, so the backoff resets here rather than on open
+        this.setStatus({ state: 'connected', attempt: 0, lastMessageAt: Date.now() });
+        this.armWatchdog();
+
         try {
           const payload = JSON.parse(event.data);
 
           if (payload.type === 'status') {
-            this.log(`Status: ${payload.msg}`);
+            this.log(t('mqtt.status', { message: payload.msg }));
             return;
           }
 
-          const { topic, data } = payload;
-          const prefix = `${config.topicPrefix}/cars/${config.carId}`;
-          const updates: Partial<TeslaData> = {};
-
-          // ── Core telemetry ──────────────────────────────────────────
-          if (topic === `${prefix}/speed`) updates.speed = parseFloat(data) || 0;
-          if (topic === `${prefix}/battery_level`) updates.batteryLevel = parseInt(data);
-          if (topic === `${prefix}/power`) updates.power = parseFloat(data);
-          if (topic === `${prefix}/shift_state`) updates.gear = data;
-          if (topic === `${prefix}/ideal_battery_range_km`) updates.range = parseFloat(data);
-          if (topic === `${prefix}/outside_temp`) updates.outsideTemp = parseFloat(data);
-          if (topic === `${prefix}/inside_temp`) updates.insideTemp = parseFloat(data);
-          if (topic === `${prefix}/odometer`) updates.odometer = parseFloat(data);
-          if (topic === `${prefix}/heading`) updates.heading = parseFloat(data);
-          if (topic === `${prefix}/elevation`) updates.elevation = parseFloat(data);
-          if (topic === `${prefix}/geofence`) updates.geofence = data;
-
-          if (topic === `${prefix}/state`) {
-            updates.state = data;
-            updates.isCharging = data === 'charging';
+          if (payload.type === 'ping') {
+            this.heartbeatSeen = true;
+            this.armWatchdog();
+            this.ws?.send(JSON.stringify({ type: 'pong', ts: payload.ts }));
+            return;
           }
-          if (topic === `${prefix}/locked`) updates.isLocked = data === 'true';
-
-          // ── Charging ────────────────────────────────────────────────
-          if (topic === `${prefix}/charger_power`) updates.chargerPower = parseFloat(data);
-          if (topic === `${prefix}/time_to_full_charge`) updates.timeToFullCharge = parseFloat(data);
-          if (topic === `${prefix}/charge_limit_soc`) updates.chargeLimitSoc = parseInt(data);
-
-          // ── Navigation (legacy flat topics) ─────────────────────────
-          if (topic === `${prefix}/destination`) updates.destination = data;
-          if (topic === `${prefix}/est_arrival_time`) updates.estArrivalTime = data;
-          if (topic === `${prefix}/time_to_arrival`) updates.timeToArrival = parseFloat(data);
-
-          // ── Navigation (new active_route flat topics) ───────────────
-          if (topic === `${prefix}/active_route_destination`) updates.destination = data;
-          if (topic === `${prefix}/active_route_minutes_to_arrival`) {
-            const mins = parseFloat(data);
-            updates.timeToArrival = mins;
-            if (mins > 0) {
-              updates.estArrivalTime = new Date(Date.now() + mins * 60000).toISOString();
-            }
+
+          if (payload.type === 'settings' || payload.type === 'command') {
+            this.onControl?.(payload);
+            return;
+          }
+
+          if (payload.type === 'snapshot') {
+            // Full state: anything not in it is gone from the proxy
+            this.topicCache.clear();
+            this.lastSeq = payload.seq;
+            this.resyncPending = false;
+            this.ingest(payload.topics);
+            return;
           }
 
-          // ── Navigation (rich active_route JSON payload) ─────────────
-          if (topic === `${prefix}/active_route`) {
-            try {
-              const route = JSON.parse(data);
-
-              if (route.error) {
-                updates.activeRoute = null;
-                updates.destination = '';
-                updates.timeToArrival = 0;
-                updates.estArrivalTime = '';
-              } else {
-                updates.activeRoute = route;
-                if (route.destination) updates.destination = route.destination;
-                if (route.minutes_to_arrival) {
-                  updates.timeToArrival = parseFloat(route.minutes_to_arrival);
-                  updates.estArrivalTime = new Date(Date.now() + updates.timeToArrival * 60000).toISOString();
-                }
-              }
-            } catch {
-              updates.activeRoute = null;
-              updates.destination = '';
+          if (payload.type === 'delta') {
+            if (this.lastSeq !== null && payload.seq !== this.lastSeq + 1) {
+              this.log(t('mqtt.missedUpdates', { from: this.lastSeq, to: payload.seq }));
+              this.requestResync();
             }
+            this.lastSeq = payload.seq;
+            this.ingest(payload.topics);
+            return;
           }
 
-          if (Object.keys(updates).length > 0) {
-            this.onDataUpdate(updates);
+          // Legacy proxies send one message per topic
+          if (payload.topic) {
+            this.ingest([payload]);
           }
         } catch (err) {
           console.error('Proxy parse error', err);
@@ -139,26 +287,27 @@ export class MqttService {
       };
 
       this.ws.onclose = (event) => {
-        this.log(`❌ Proxy disconnected (Code: ${event.code}). Retrying in 5s...`);
-        this.onStatusChange?.('disconnected');
-        setTimeout(() => this.connect(config), 5000);
+        this.log(t('mqtt.disconnected', { code: event.code }));
+        this.ws = null;
+        this.scheduleReconnect();
       };
 
       this.ws.onerror = (e) => {
-        this.log('⚠️ WebSocket Error (Check Reverse Proxy /ws mapping)');
+        this.log(t('mqtt.socketError'));
         console.error(e);
       };
     } catch (err: any) {
-      this.log(`🔥 Connection error: ${err.message}`);
+      this.log(t('mqtt.connectionError', { error: err.message }));
+      this.scheduleReconnect();
     }
   }
 
+  /** Closes the link for good: no pending retry or watchdog survives this. */
   disconnect() {
-    this.log('Disconnecting Proxy...');
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.onStatusChange?.('disconnected');
+    this.log(t('mqtt.disconnecting'));
+    this.clearTimers();
+    this.dropSocket();
+    this.config = null;
+    this.setStatus({ ...INITIAL_CONNECTION_STATUS });
   }
 }
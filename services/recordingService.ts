@@ -0,0 +1,55 @@
+import { apiFetch } from './auth.ts';
+import { MessageKey } from './i18n.ts';
+import { TopicMessage } from './mqttService.ts';
+
+export interface Recording {
+  id: string;
+  carId: number;
+  kind: 'drive' | 'charge';
+  startedAt: number;    // ms since epoch
+  endedAt: number;      // last write, ms since epoch
+  size: number;         // bytes
+}
+
+export const RECORDING_KIND_LABELS: Record<Recording['kind'], MessageKey> = {
+  drive: 'recording.drive',
+  charge: 'recording.charge',
+};
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+export async function listRecordings(): Promise<Recording[]> {
+  const res = await apiFetch('/api/recordings');
+  return res.ok ? res.json() : [];
+}
+
+/**
+ * Streams a recording from the proxy, which paces it at `speed`, and hands
+ * each received chunk of NDJSON lines to `onMessages` as proxy messages.
+ * Resolves when the recording ends or `signal` aborts.
+ */
+export async function streamRecording(
+  id: string,
+  speed: number,
+  onMessages: (messages: TopicMessage[]) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const res = await apiFetch(`/api/recordings/${encodeURIComponent(id)}/stream?speed=${speed}`, { signal });
+  if (!res.ok || !res.body) throw new Error(`Recording unavailable (HTTP ${res.status})`);
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      const messages = lines.filter(line => line.trim()).map(line => JSON.parse(line) as TopicMessage);
+      if (messages.length > 0) onMessages(messages);
+    }
+  } catch (err) {
+    if (!signal.aborted) throw err;
+  }
+}
@@ -0,0 +1,120 @@
+import { HUDMode } from '../types.ts';
+import { apiFetch } from './auth.ts';
+import { ThemeSettings } from './theme.ts';
+import { HudLayout } from './layout.ts';
+import { TpmsSettings } from './tpms.ts';
+import { SpeedLimitSettings } from './speedLimits.ts';
+import { ArrivalSettings } from './arrival.ts';
+import { AlertSettings } from './alerts.ts';
+import { UnitSettings } from './units.ts';
+import { SpeechSettings } from './speech.ts';
+import { Language } from './i18n.ts';
+import { isValidSetting } from '../shared/settingsSchema.js';
+
+const DEVICE_ID_KEY = 'hud_device_id';
+const APPLIED_KEY = 'hud_synced_settings';
+
+/** Preferences the proxy can store and push; mirrors the checks in shared/settingsSchema.js. */
+export interface SyncedSettings {
+  mode?: HUDMode;
+  units?: UnitSettings | 'KM' | 'MI';   // older proxies may still hold the single toggle
+  carId?: number;
+  theme?: ThemeSettings;
+  layout?: HudLayout;
+  tpms?: TpmsSettings;
+  speedLimits?: SpeedLimitSettings;
+  arrival?: ArrivalSettings;
+  staleSeconds?: number;
+  summarySeconds?: number;
+  alerts?: AlertSettings;
+  speech?: SpeechSettings;
+  language?: Language | '';   // empty = follow the browser
+}
+
+/** The settings from the proxy that are known and valid; `onInvalid` is told about every other key. */
+export function validSettings(settings: unknown, onInvalid: (key: string) => void): SyncedSettings {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) return {};
+  const valid: Record<string, unknown> = {};
+  Object.entries(settings).forEach(([key, value]) => {
+    if (isValidSetting(key, value)) valid[key] = value;
+    else onInvalid(key);
+  });
+  return valid as SyncedSettings;
+}
+
+export type HudCommand = 'startDemo' | 'stopDemo' | 'openSettings' | 'closeSettings';
+
+/** Pushed by the proxy over the WebSocket. */
+export type ControlMessage =
+  | { type: 'settings'; settings: SyncedSettings }
+  | { type: 'command'; command: HudCommand };
+
+export interface HudDevice {
+  id: string;
+  name: string;
+  online: boolean;
+  lastSeenAt: number;
+  settings: SyncedSettings;    // this device's overrides
+  effective: SyncedSettings;   // overrides merged over the defaults
+}
+
+/** Random id this browser identifies itself with, created on first use. */
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    // Not crypto.randomUUID(): HUDs are often served over plain http, where it is unavailable
+    id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+export const getDeviceName = () => navigator.userAgent.match(/\(([^;)]+)/)?.[1] || 'HUD';
+
+/**
+ * The proxy re-sends a device's settings on every connect. They are only
+ * applied when they differ from the last ones applied, so local edits made
+ * since then survive a reconnect.
+ */
+export function takeNewSettings(settings: SyncedSettings): boolean {
+  const json = JSON.stringify(settings);
+  if (localStorage.getItem(APPLIED_KEY) === json) return false;
+  localStorage.setItem(APPLIED_KEY, json);
+  return true;
+}
+
+async function send(path: string, method: string, body: unknown): Promise<Response> {
+  const res = await apiFetch(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`${method} ${path} failed (${res.status})`);
+  return res;
+}
+
+export async function listHudDevices(): Promise<HudDevice[]> {
+  const res = await apiFetch('/api/settings/devices');
+  if (!res.ok) throw new Error(`Could not load devices (${res.status})`);
+  return res.json();
+}
+
+export async function fetchDefaultSettings(): Promise<SyncedSettings> {
+  const res = await apiFetch('/api/settings');
+  if (!res.ok) throw new Error(`Could not load defaults (${res.status})`);
+  return res.json();
+}
+
+/** Stores `settings` as overrides for one HUD; `null` values clear an override. */
+export async function saveDeviceSettings(deviceId: string, settings: Partial<Record<keyof SyncedSettings, unknown>>) {
+  await send(`/api/settings/devices/${encodeURIComponent(deviceId)}`, 'PUT', settings);
+}
+
+/** Stores `settings` as the defaults for every HUD without its own override. */
+export async function saveDefaultSettings(settings: Partial<Record<keyof SyncedSettings, unknown>>) {
+  await send('/api/settings', 'PUT', settings);
+}
+
+export async function sendHudCommand(deviceId: string, command: HudCommand) {
+  await send(`/api/settings/devices/${encodeURIComponent(deviceId)}/command`, 'POST', { command });
+}
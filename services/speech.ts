@@ -0,0 +1,182 @@
+import { MessageKey, getLanguage, t } from './i18n.ts';
+import { minutesOfDay } from './theme.ts';
+
+export type SpeechEvent = 'destination' | 'etaShift' | 'arrivalLow' | 'charging' | 'alerts';
+
+export interface SpeechSettings {
+  enabled: boolean;
+  voice: string;          // voiceURI, empty = browser default for the language
+  lang: string;           // BCP 47 tag, empty = the HUD's language
+  volume: number;         // 0-100
+  quietHours: boolean;
+  quietStart: string;     // "HH:MM", nothing is spoken from here...
+  quietEnd: string;       // ...until here (may wrap past midnight)
+  events: Record<SpeechEvent, boolean>;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  enabled: false,
+  voice: '',
+  lang: '',
+  volume: 80,
+  quietHours: false,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  events: { destination: true, etaShift: true, arrivalLow: true, charging: true, alerts: true },
+};
+
+export const SPEECH_EVENTS: { event: SpeechEvent; label: MessageKey }[] = [
+  { event: 'destination', label: 'speech.event.destination' },
+  { event: 'etaShift', label: 'speech.event.etaShift' },
+  { event: 'arrivalLow', label: 'speech.event.arrivalLow' },
+  { event: 'charging', label: 'speech.event.charging' },
+  { event: 'alerts', label: 'speech.event.alerts' },
+];
+
+export interface Announcement {
+  key: string;            // same key = same subject; a newer text replaces a queued one
+  text: string;
+}
+
+const REPEAT_MS = 2 * 60 * 1000; // the same sentence isn't repeated within this time
+const MAX_QUEUE = 5;
+
+export function inQuietHours(settings: SpeechSettings, now: Date): boolean {
+  if (!settings.quietHours) return false;
+  const start = minutesOfDay(settings.quietStart);
+  const end = minutesOfDay(settings.quietEnd);
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+export const speechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Speaks announcements one at a time through speechSynthesis. Queued
+ * announcements with the same key collapse into the latest, and a sentence
+ * spoken recently is dropped rather than repeated.
+ */
+export class SpeechAnnouncer {
+  private queue: Announcement[] = [];
+  private speaking = false;
+  private current: SpeechSynthesisUtterance | null = null;   // events of cancelled ones are ignored
+  private lastSpoken = new Map<string, number>();
+  private settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS;
+
+  configure(settings: SpeechSettings) {
+    this.settings = settings;
+    if (!settings.enabled) this.cancel();
+  }
+
+  announce(announcement: Announcement, at = Date.now()) {
+    const { enabled } = this.settings;
+    if (!enabled || !speechSupported() || inQuietHours(this.settings, new Date(at))) return;
+    const last = this.lastSpoken.get(announcement.text);
+    if (last !== undefined && at - last < REPEAT_MS) return;
+
+    const queued = this.queue.findIndex(item => item.key === announcement.key);
+    if (queued >= 0) this.queue[queued] = announcement;
+    else this.queue = [...this.queue, announcement].slice(-MAX_QUEUE);
+    this.next();
+  }
+
+  /** Speaks `text` right away, ignoring quiet hours and repeats (for the Settings test button). */
+  preview(text: string) {
+    if (!speechSupported()) return;
+    this.cancel();
+    this.queue = [{ key: 'preview', text }];
+    this.next(true);
+  }
+
+  cancel() {
+    this.queue = [];
+    this.speaking = false;
+    this.current = null;
+    if (speechSupported()) window.speechSynthesis.cancel();
+  }
+
+  private next(force = false) {
+    if (this.speaking) return;
+    const item = this.queue.shift();
+    if (!item) return;
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === this.settings.voice);
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang || this.settings.lang || getLanguage();
+    utterance.volume = Math.min(Math.max(this.settings.volume, 0), 100) / 100;
+    utterance.onend = utterance.onerror = () => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      this.speaking = false;
+      this.next();
+    };
+
+    this.current = utterance;
+    this.speaking = true;
+    if (!force) this.lastSpoken.set(item.text, Date.now());
+    window.speechSynthesis.speak(utterance);
+  }
+}
+
+export interface SpeechInput {
+  destination: string;
+  arrivalTime: string;          // formatted clock time, empty when unknown
+  etaShiftAt: number | null;    // identifies the current ETA shift, if any
+  etaShiftMinutes: number;
+  arrivalLowSoc: number | null; // set while the arrival forecast is below the reserve
+  isCharging: boolean;
+  batteryLevel: number;
+  chargeLimitSoc: number;
+}
+
+/**
+ * Turns changes between consecutive ticks into announcements. The first
+ * tick only records the state, so opening the HUD mid-drive stays quiet.
+ */
+export class SpeechEventDetector {
+  private previous: SpeechInput | null = null;
+
+  update(input: SpeechInput, events: Record<SpeechEvent, boolean>): Announcement[] {
+    const prev = this.previous;
+    this.previous = input;
+    if (!prev) return [];
+    const out: Announcement[] = [];
+
+    if (events.destination && input.destination && input.destination !== prev.destination) {
+      out.push({
+        key: 'destination',
+        text: input.arrivalTime
+          ? t('speech.navigatingArriving', { destination: input.destination, time: input.arrivalTime })
+          : t('speech.navigating', { destination: input.destination }),
+      });
+    }
+    if (events.etaShift && input.etaShiftAt !== null && input.etaShiftAt !== prev.etaShiftAt) {
+      const minutes = Math.abs(Math.round(input.etaShiftMinutes));
+      const later = input.etaShiftMinutes > 0;
+      out.push({
+        key: 'eta',
+        text: input.arrivalTime
+          ? t(later ? 'speech.etaLaterAt' : 'speech.etaEarlierAt', { minutes, time: input.arrivalTime })
+          : t(later ? 'speech.etaLater' : 'speech.etaEarlier', { minutes }),
+      });
+    }
+    if (events.arrivalLow && input.arrivalLowSoc !== null && prev.arrivalLowSoc === null) {
+      out.push({ key: 'arrival', text: t('speech.arrivalLow', { soc: Math.max(0, Math.round(input.arrivalLowSoc)) }) });
+    }
+    if (events.charging && prev.isCharging && !input.isCharging) {
+      const atLimit = input.chargeLimitSoc > 0 && input.batteryLevel >= input.chargeLimitSoc - 1;
+      out.push({
+        key: 'charging',
+        text: atLimit
+          ? t('speech.chargeLimit', { soc: Math.round(input.chargeLimitSoc) })
+          : t('speech.chargingStopped', { soc: Math.round(input.batteryLevel) }),
+      });
+    }
+    return out;
+  }
+
+  reset() {
+    this.previous = null;
+  }
+}
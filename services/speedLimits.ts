@@ -0,0 +1,36 @@
+export interface GeofenceLimit {
+  geofence: string;   // TeslaMate geofence name, matched case-insensitively
+  limit: number;      // km/h
+}
+
+export interface SpeedLimitSettings {
+  maxSpeed: number;          // km/h, 0 = no global limit
+  tolerancePercent: number;  // % above the limit that is still accepted
+  hysteresis: number;        // km/h below the warning threshold before the warning clears
+  geofenceLimits: GeofenceLimit[];
+}
+
+export const DEFAULT_SPEED_LIMIT_SETTINGS: SpeedLimitSettings = {
+  maxSpeed: 0,
+  tolerancePercent: 5,
+  hysteresis: 3,
+  geofenceLimits: [],
+};
+
+/** The limit in force: a matching geofence rule wins over the global maximum. 0 = none. */
+export function activeSpeedLimit(settings: SpeedLimitSettings, geofence: string): number {
+  const name = geofence.trim().toLowerCase();
+  const rule = name ? settings.geofenceLimits.find(r => r.geofence.trim().toLowerCase() === name && r.limit > 0) : undefined;
+  return rule ? rule.limit : settings.maxSpeed;
+}
+
+/**
+ * Whether to warn at `speed` (km/h). Warns above limit + tolerance; once
+ * warning, keeps warning until the speed drops `hysteresis` below that
+ * threshold so the display doesn't flicker around the limit.
+ */
+export function isOverspeed(speed: number, limit: number, settings: SpeedLimitSettings, warning: boolean): boolean {
+  if (limit <= 0) return false;
+  const threshold = limit * (1 + settings.tolerancePercent / 100);
+  return warning ? speed > threshold - settings.hysteresis : speed > threshold;
+}
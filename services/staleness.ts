@@ -0,0 +1,44 @@
+import { TeslaData } from '../types.ts';
+
+export const DEFAULT_STALE_SECONDS = 120;
+
+// States in which TeslaMate stops publishing live values
+const INACTIVE_STATES = ['asleep', 'offline'];
+
+/** Age of a field in seconds, `Infinity` when it was never received. */
+export function fieldAge(data: TeslaData, field: keyof TeslaData, now: number = Date.now()): number {
+  const updatedAt = data.updatedAt[field];
+  return updatedAt ? Math.max(0, (now - updatedAt) / 1000) : Infinity;
+}
+
+/**
+ * True when the freshest of the given fields is older than the threshold.
+ * Fields that were never received don't count, so initial zeros aren't flagged.
+ */
+export function isStale(data: TeslaData, fields: (keyof TeslaData)[], thresholdSeconds: number, now: number = Date.now()): boolean {
+  const ages = fields.map(field => fieldAge(data, field, now)).filter(age => age !== Infinity);
+  return ages.length > 0 && Math.min(...ages) > thresholdSeconds;
+}
+
+export const isCarInactive = (data: TeslaData) => INACTIVE_STATES.includes(data.state);
+
+/**
+ * Whether the car itself stopped reporting: TeslaMate marks it offline, or
+ * its freshest value is older than the threshold. Time before `linkUpSince`
+ * (when the HUD's own link last came up) doesn't count, since nothing could
+ * arrive then.
+ */
+export function isCarOffline(data: TeslaData, thresholdSeconds: number, linkUpSince: number, now: number = Date.now()): boolean {
+  if (data.state === 'offline') return true;
+  const received = Object.values(data.updatedAt).filter((at): at is number => typeof at === 'number');
+  if (received.length === 0) return false;
+  return (now - Math.max(...received, linkUpSince)) / 1000 > thresholdSeconds;
+}
+
+/** Short human age like "45s", "12m" or "3h". */
+export function formatAge(seconds: number): string {
+  if (seconds === Infinity) return '--';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
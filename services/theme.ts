@@ -0,0 +1,100 @@
+import { MessageKey } from './i18n.ts';
+import { LatLng } from './geo.ts';
+
+export type ThemeId = 'day' | 'night' | 'contrast';
+
+// 'sun' and 'schedule' switch between day and night automatically; the others pin a theme
+export type ThemeMode = 'sun' | 'schedule' | ThemeId;
+
+export interface ThemeSettings {
+  mode: ThemeMode;
+  dayStart: string;     // 'HH:MM', schedule mode and fallback without a GPS fix
+  nightStart: string;
+  dimming: number;      // % brightness taken off the whole HUD, 0-80
+}
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  mode: 'sun',
+  dayStart: '07:00',
+  nightStart: '20:00',
+  dimming: 0,
+};
+
+export const THEME_MODES: { mode: ThemeMode; label: MessageKey }[] = [
+  { mode: 'sun', label: 'theme.sun' },
+  { mode: 'schedule', label: 'theme.schedule' },
+  { mode: 'day', label: 'theme.day' },
+  { mode: 'night', label: 'theme.night' },
+  { mode: 'contrast', label: 'theme.contrast' },
+];
+
+export const MAX_DIMMING = 80;
+
+export interface SunTimes {
+  sunrise: Date | null;   // null during polar day/night
+  sunset: Date | null;
+  alwaysUp: boolean;
+  alwaysDown: boolean;
+}
+
+const J1970 = 2440587.5;
+const J2000 = 2451545;
+const SUN_ALTITUDE = -0.833; // degrees: upper limb on the horizon, with refraction
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+const toJulian = (date: Date) => date.getTime() / 86400000 + J1970;
+const fromJulian = (j: number) => new Date((j - J1970) * 86400000);
+
+/** Sunrise and sunset around `date` at a position (sunrise equation, about a minute accurate). */
+export function sunTimes(date: Date, { latitude, longitude }: LatLng): SunTimes {
+  // Days since J2000 of the solar noon nearest to `date` at this longitude
+  const n = Math.round(toJulian(date) - J2000 - 0.0009 + longitude / 360);
+  const meanSolarNoon = 0.0009 - longitude / 360 + n;
+  const anomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const m = toRad(anomaly);
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRad((anomaly + center + 180 + 102.9372) % 360);
+  const transit = J2000 + meanSolarNoon + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRad(23.4397)));
+
+  const lat = toRad(latitude);
+  const cosHourAngle = (Math.sin(toRad(SUN_ALTITUDE)) - Math.sin(lat) * Math.sin(declination)) / (Math.cos(lat) * Math.cos(declination));
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, alwaysUp: false, alwaysDown: true };
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, alwaysUp: true, alwaysDown: false };
+
+  const halfDay = toDeg(Math.acos(cosHourAngle)) / 360;
+  return { sunrise: fromJulian(transit - halfDay), sunset: fromJulian(transit + halfDay), alwaysUp: false, alwaysDown: false };
+}
+
+/** Minutes since midnight for 'HH:MM'; missing or invalid parts count as 0. */
+export const minutesOfDay = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+function isScheduledDay(settings: ThemeSettings, now: Date): boolean {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const dayStart = minutesOfDay(settings.dayStart);
+  const nightStart = minutesOfDay(settings.nightStart);
+  return dayStart <= nightStart
+    ? current >= dayStart && current < nightStart
+    : current >= dayStart || current < nightStart;
+}
+
+/**
+ * The theme to render now. Sun mode needs the car's position and falls back
+ * to the schedule until the car has reported one.
+ */
+export function resolveTheme(settings: ThemeSettings, now: Date, position: LatLng | null): ThemeId {
+  if (settings.mode === 'day' || settings.mode === 'night' || settings.mode === 'contrast') return settings.mode;
+
+  if (settings.mode === 'sun' && position) {
+    const sun = sunTimes(now, position);
+    if (sun.alwaysUp) return 'day';
+    if (sun.alwaysDown) return 'night';
+    return now >= sun.sunrise! && now < sun.sunset! ? 'day' : 'night';
+  }
+
+  return isScheduledDay(settings, now) ? 'day' : 'night';
+}
@@ -0,0 +1,120 @@
+import { TeslaData, TopicMapping, TopicParser, INITIAL_DATA } from '../types.ts';
+import { TOPIC_PARSERS } from '../shared/topicParsers.js';
+
+// Built-in TeslaMate topics. Entries served by the proxy (`topicMap` in
+// /api/config) are merged on top, replacing any default with the same topic.
+export const DEFAULT_TOPIC_MAP: TopicMapping[] = [
+  // ── Core telemetry ──────────────────────────────────────────
+  { topic: 'speed', field: 'speed', parser: 'float' },
+  { topic: 'battery_level', field: 'batteryLevel', parser: 'int' },
+  { topic: 'power', field: 'power', parser: 'float' },
+  { topic: 'shift_state', field: 'gear', parser: 'string' },
+  { topic: 'ideal_battery_range_km', field: 'range', parser: 'float' },
+  { topic: 'outside_temp', field: 'outsideTemp', parser: 'float' },
+  { topic: 'inside_temp', field: 'insideTemp', parser: 'float' },
+  { topic: 'odometer', field: 'odometer', parser: 'float' },
+  { topic: 'heading', field: 'heading', parser: 'float' },
+  { topic: 'latitude', field: 'latitude', parser: 'float' },
+  { topic: 'longitude', field: 'longitude', parser: 'float' },
+  { topic: 'elevation', field: 'elevation', parser: 'float' },
+  { topic: 'geofence', field: 'geofence', parser: 'string' },
+  { topic: 'state', field: 'state', parser: 'state' },
+  { topic: 'locked', field: 'isLocked', parser: 'bool' },
+
+  // ── Tire pressure (bar) ─────────────────────────────────────
+  { topic: 'tpms_pressure_fl', field: 'tpms_front_left', parser: 'float' },
+  { topic: 'tpms_pressure_fr', field: 'tpms_front_right', parser: 'float' },
+  { topic: 'tpms_pressure_rl', field: 'tpms_rear_left', parser: 'float' },
+  { topic: 'tpms_pressure_rr', field: 'tpms_rear_right', parser: 'float' },
+
+  // ── Charging ────────────────────────────────────────────────
+  { topic: 'charger_power', field: 'chargerPower', parser: 'float' },
+  { topic: 'time_to_full_charge', field: 'timeToFullCharge', parser: 'float' },
+  { topic: 'charge_limit_soc', field: 'chargeLimitSoc', parser: 'int' },
+  { topic: 'charge_energy_added', field: 'chargeEnergyAdded', parser: 'float' },
+
+  // ── Navigation (legacy flat topics) ─────────────────────────
+  { topic: 'destination', field: 'destination', parser: 'string' },
+  { topic: 'est_arrival_time', field: 'estArrivalTime', parser: 'string' },
+  { topic: 'time_to_arrival', field: 'timeToArrival', parser: 'float' },
+
+  // ── Navigation (new active_route flat topics) ───────────────
+  { topic: 'active_route_destination', field: 'destination', parser: 'string' },
+  { topic: 'active_route_minutes_to_arrival', field: 'timeToArrival', parser: 'minutes_to_arrival' },
+
+  // ── Navigation (rich active_route JSON payload) ─────────────
+  { topic: 'active_route', field: 'activeRoute', parser: 'active_route' },
+];
+
+const VALUE_PARSERS = {
+  float: (data: string) => parseFloat(data) || 0,
+  int: (data: string) => parseInt(data) || 0,
+  bool: (data: string) => data === 'true',
+  string: (data: string) => data,
+  json: (data: string) => {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  },
+} satisfies Partial<Record<TopicParser, (data: string) => unknown>>;
+
+const COMPOUND_PARSERS: Record<Exclude<TopicParser, keyof typeof VALUE_PARSERS>, (data: string) => Partial<TeslaData>> = {
+  state: (data) => ({ state: data, isCharging: data === 'charging' }),
+
+  minutes_to_arrival: (data) => {
+    const mins = parseFloat(data);
+    const updates: Partial<TeslaData> = { timeToArrival: mins };
+    if (mins > 0) {
+      updates.estArrivalTime = new Date(Date.now() + mins * 60000).toISOString();
+    }
+    return updates;
+  },
+
+  active_route: (data) => {
+    try {
+      const route = JSON.parse(data);
+
+      if (route.error) {
+        return { activeRoute: null, destination: '', timeToArrival: 0, estArrivalTime: '' };
+      }
+
+      const updates: Partial<TeslaData> = { activeRoute: route };
+      if (route.destination) updates.destination = route.destination;
+      if (route.minutes_to_arrival) {
+        const mins = parseFloat(route.minutes_to_arrival);
+        updates.timeToArrival = mins;
+        updates.estArrivalTime = new Date(Date.now() + mins * 60000).toISOString();
+      }
+      return updates;
+    } catch {
+      return { activeRoute: null, destination: '' };
+    }
+  },
+};
+
+/** Merges extra mappings over the defaults into a lookup keyed by topic suffix. */
+export function buildTopicMap(extra: TopicMapping[] = []): Map<string, TopicMapping> {
+  const map = new Map<string, TopicMapping>();
+  [...DEFAULT_TOPIC_MAP, ...extra].forEach(mapping => {
+    if ((TOPIC_PARSERS as readonly string[]).includes(mapping.parser)) map.set(mapping.topic, mapping);
+  });
+  return map;
+}
+
+/**
+ * Parses a raw payload according to its mapping. Fields unknown to
+ * TeslaData are returned under `custom`, keyed by the mapping's field.
+ */
+export function applyTopicMapping(mapping: TopicMapping, data: string): Partial<TeslaData> {
+  if (Object.hasOwn(COMPOUND_PARSERS, mapping.parser)) {
+    return COMPOUND_PARSERS[mapping.parser as keyof typeof COMPOUND_PARSERS](data);
+  }
+
+  const value = VALUE_PARSERS[mapping.parser as keyof typeof VALUE_PARSERS](data);
+  if (Object.hasOwn(INITIAL_DATA, mapping.field) && mapping.field !== 'custom') {
+    return { [mapping.field]: value } as Partial<TeslaData>;
+  }
+  return { custom: { [mapping.field]: value } };
+}
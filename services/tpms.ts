@@ -0,0 +1,53 @@
+import { TeslaData } from '../types.ts';
+import { MessageKey } from './i18n.ts';
+
+// The display unit is part of the unit settings (services/units.ts)
+export interface TpmsSettings {
+  lowThreshold: number;   // bar - warn below this
+  maxDeviation: number;   // bar - warn when a tire differs this much from the others' average
+}
+
+export const DEFAULT_TPMS_SETTINGS: TpmsSettings = {
+  lowThreshold: 2.5,
+  maxDeviation: 0.3,
+};
+
+export type TirePosition = 'front_left' | 'front_right' | 'rear_left' | 'rear_right';
+
+export const TIRE_POSITIONS: TirePosition[] = ['front_left', 'front_right', 'rear_left', 'rear_right'];
+
+export const TIRE_LABELS: Record<TirePosition, MessageKey> = {
+  front_left: 'tire.front_left',
+  front_right: 'tire.front_right',
+  rear_left: 'tire.rear_left',
+  rear_right: 'tire.rear_right',
+};
+
+export interface TireStatus {
+  position: TirePosition;
+  pressure: number;       // bar, 0 when unknown
+  low: boolean;
+  deviating: boolean;
+}
+
+/** Flags each tire that is below the threshold or far off the average of the other three. */
+export function evaluateTires(data: TeslaData, settings: TpmsSettings): TireStatus[] {
+  const pressures = TIRE_POSITIONS.map(position => data[`tpms_${position}`] || 0);
+
+  return TIRE_POSITIONS.map((position, i) => {
+    const pressure = pressures[i];
+    const others = pressures.filter((p, j) => j !== i && p > 0);
+    const othersAvg = others.length > 0 ? others.reduce((sum, p) => sum + p, 0) / others.length : pressure;
+
+    return {
+      position,
+      pressure,
+      low: pressure > 0 && pressure < settings.lowThreshold,
+      deviating: pressure > 0 && others.length > 0 && Math.abs(pressure - othersAvg) > settings.maxDeviation,
+    };
+  });
+}
+
+export const hasTpmsData = (tires: TireStatus[]) => tires.some(tire => tire.pressure > 0);
+
+export const hasTpmsWarning = (tires: TireStatus[]) => tires.some(tire => tire.low || tire.deviating);
@@ -0,0 +1,124 @@
+import { TeslaData } from '../types.ts';
+import { ConsumptionTracker } from './consumption.ts';
+import { isDriving } from './arrival.ts';
+
+export const CONSUMPTION_WINDOWS_KM = [1, 5, 15];
+
+export interface TripStats {
+  startedAt: number;
+  endedAt: number | null;      // null while the drive is ongoing
+  drivingMs: number;
+  distanceKm: number;          // odometer delta, integrated speed when no odometer is reported
+  energyKwh: number;           // net energy since leaving P (regen subtracted)
+  startBattery: number;        // %
+  endBattery: number;          // %, latest while driving
+  maxSpeed: number;            // km/h
+  geofence: string;            // where the car parked, once known
+}
+
+interface TripState extends TripStats {
+  startOdometer: number;
+  integratedKm: number;
+  lastSampleAt: number;
+}
+
+const MAX_SAMPLE_GAP_MS = 30 * 1000;
+
+/**
+ * Client-side trip computer, fed once per clock tick. A trip starts when the
+ * car shifts out of P and ends when it is back in P; the finished trip stays
+ * readable until the next one starts.
+ */
+export class TripComputer {
+  private consumption = new ConsumptionTracker(Math.max(...CONSUMPTION_WINDOWS_KM));
+  private trip: TripState | null = null;
+
+  update(data: TeslaData, at: number) {
+    const driving = isDriving(data);
+
+    if (driving && (!this.trip || this.trip.endedAt !== null)) {
+      this.start(data, at);
+      return;
+    }
+    if (!this.trip) return;
+    if (this.trip.endedAt !== null) {
+      // TeslaMate often reports the geofence a little after parking
+      if (data.geofence) this.trip.geofence = data.geofence;
+      return;
+    }
+
+    if (!driving) {
+      this.trip.endedAt = at;
+      this.trip.geofence = data.geofence || '';
+      this.consumption.pause();
+      return;
+    }
+
+    const elapsed = at - this.trip.lastSampleAt;
+    if (elapsed > 0 && elapsed <= MAX_SAMPLE_GAP_MS) {
+      const hours = elapsed / 3600000;
+      this.trip.drivingMs += elapsed;
+      this.trip.integratedKm += data.speed * hours;
+      this.trip.energyKwh += data.power * hours;
+    }
+    this.trip.lastSampleAt = at;
+    this.trip.maxSpeed = Math.max(this.trip.maxSpeed, data.speed);
+    if (data.batteryLevel > 0) this.trip.endBattery = data.batteryLevel;
+    this.trip.distanceKm = this.trip.startOdometer > 0 && data.odometer >= this.trip.startOdometer
+      ? data.odometer - this.trip.startOdometer
+      : this.trip.integratedKm;
+    this.consumption.sample(data.power, data.speed, at);
+  }
+
+  reset() {
+    this.trip = null;
+    this.consumption.reset();
+  }
+
+  stats(): TripStats | null {
+    if (!this.trip) return null;
+    const { startOdometer, integratedKm, lastSampleAt, ...stats } = this.trip;
+    return stats;
+  }
+
+  /** Rolling consumption over the last `km` driven (across trips), or null. */
+  whPerKm(km: number): number | null {
+    return this.consumption.whPerKm(km);
+  }
+
+  private start(data: TeslaData, at: number) {
+    this.trip = {
+      startedAt: at,
+      endedAt: null,
+      drivingMs: 0,
+      distanceKm: 0,
+      energyKwh: 0,
+      startBattery: data.batteryLevel,
+      endBattery: data.batteryLevel,
+      maxSpeed: data.speed,
+      geofence: '',
+      startOdometer: data.odometer,
+      integratedKm: 0,
+      lastSampleAt: at,
+    };
+    this.consumption.sample(data.power, data.speed, at);
+  }
+}
+
+export const DEFAULT_SUMMARY_SECONDS = 30;
+
+// Shorter "trips" (e.g. shifting to R and back to park) get no summary
+const MIN_SUMMARY_DISTANCE_KM = 0.05;
+
+/** Whether a finished trip's summary card should still be on screen at `now`. */
+export const showTripSummary = (trip: TripStats | null, seconds: number, now: number): trip is TripStats =>
+  !!trip && trip.endedAt !== null && seconds > 0 &&
+  trip.distanceKm >= MIN_SUMMARY_DISTANCE_KM && now - trip.endedAt < seconds * 1000;
+
+/** Average speed in km/h over the time spent out of P. */
+export const averageSpeed = (trip: TripStats) =>
+  trip.drivingMs > 0 ? trip.distanceKm / (trip.drivingMs / 3600000) : 0;
+
+/** Whole-trip consumption in Wh/km, or null before the first 100 m. */
+export const tripWhPerKm = (trip: TripStats) =>
+  trip.distanceKm >= 0.1 ? (trip.energyKwh * 1000) / trip.distanceKm : null;
@@ -0,0 +1,189 @@
+// Everything from MQTT arrives in metric (km, km/h, °C, bar, Wh/km); these
+// settings only change how values are shown and entered.
+export type SpeedUnit = 'kmh' | 'mph';
+export type DistanceUnit = 'km' | 'mi';
+export type TemperatureUnit = 'C' | 'F';
+export type PressureUnit = 'bar' | 'psi' | 'kPa';
+export type EfficiencyUnit = 'whkm' | 'whmi' | 'kmkwh';
+export type ClockFormat = '24h' | '12h';
+
+export interface UnitSettings {
+  speed: SpeedUnit;
+  distance: DistanceUnit;       // also picks m or ft for the elevation
+  temperature: TemperatureUnit;
+  pressure: PressureUnit;
+  efficiency: EfficiencyUnit;
+  clock: ClockFormat;
+}
+
+export const METRIC_UNITS: UnitSettings = {
+  speed: 'kmh',
+  distance: 'km',
+  temperature: 'C',
+  pressure: 'bar',
+  efficiency: 'whkm',
+  clock: '24h',
+};
+
+export const IMPERIAL_UNITS: UnitSettings = {
+  speed: 'mph',
+  distance: 'mi',
+  temperature: 'F',
+  pressure: 'psi',
+  efficiency: 'whmi',
+  clock: '12h',
+};
+
+type UnitOptions = { [K in keyof UnitSettings]: { value: UnitSettings[K]; label: string }[] };
+
+/** Choices per dimension, in the order the Settings show them. */
+export const UNIT_OPTIONS: UnitOptions = {
+  speed: [{ value: 'kmh', label: 'km/h' }, { value: 'mph', label: 'mph' }],
+  distance: [{ value: 'km', label: 'km' }, { value: 'mi', label: 'mi' }],
+  temperature: [{ value: 'C', label: '°C' }, { value: 'F', label: '°F' }],
+  pressure: [{ value: 'bar', label: 'bar' }, { value: 'psi', label: 'psi' }, { value: 'kPa', label: 'kPa' }],
+  efficiency: [{ value: 'whkm', label: 'Wh/km' }, { value: 'whmi', label: 'Wh/mi' }, { value: 'kmkwh', label: 'km/kWh' }],
+  clock: [{ value: '24h', label: '24h' }, { value: '12h', label: '12h' }],
+};
+
+const KM_TO_MI = 0.621371;
+export const MI_TO_KM = 1.60934;   // TeslaMate reports the route distance in miles
+const M_TO_FT = 3.28084;
+const BAR_TO_PSI = 14.5038;
+
+// Regions that sign roads in miles; of those only the US also uses °F
+const MILE_REGIONS = ['US', 'GB', 'LR', 'MM'];
+const FAHRENHEIT_REGIONS = ['US', 'LR', 'MM'];
+
+const regionOf = (locale: string) => {
+  try {
+    return new Intl.Locale(locale).maximize().region || '';
+  } catch {
+    return '';
+  }
+};
+
+const prefers12h = (locale: string) => {
+  try {
+    return new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12 === true;
+  } catch {
+    return false;
+  }
+};
+
+/** First-launch units for `locale`, e.g. mph/°F/psi/12h for en-US and mph/°C/psi/24h for en-GB. */
+export function defaultUnits(locale = typeof navigator !== 'undefined' ? navigator.language : 'en'): UnitSettings {
+  const region = regionOf(locale);
+  const miles = MILE_REGIONS.includes(region);
+  return {
+    speed: miles ? 'mph' : 'kmh',
+    distance: miles ? 'mi' : 'km',
+    temperature: FAHRENHEIT_REGIONS.includes(region) ? 'F' : 'C',
+    pressure: miles ? 'psi' : region === 'CA' ? 'kPa' : 'bar',
+    efficiency: miles ? 'whmi' : 'whkm',
+    clock: prefers12h(locale) ? '12h' : '24h',
+  };
+}
+
+/**
+ * Reads stored or pushed units over `fallback`, dropping unknown values. The
+ * old single 'KM' / 'MI' toggle maps to speed, distance and efficiency, and
+ * keeps °C since that was all the HUD showed then.
+ */
+export function normalizeUnits(value: unknown, fallback: UnitSettings): UnitSettings {
+  if (value === 'KM' || value === 'MI') {
+    const preset = value === 'MI' ? IMPERIAL_UNITS : METRIC_UNITS;
+    return { ...fallback, speed: preset.speed, distance: preset.distance, efficiency: preset.efficiency, temperature: 'C' };
+  }
+  if (typeof value !== 'object' || value === null) return fallback;
+  const next = { ...fallback };
+  (Object.keys(UNIT_OPTIONS) as (keyof UnitSettings)[]).forEach(key => {
+    const candidate = (value as Record<string, unknown>)[key];
+    if (UNIT_OPTIONS[key].some(option => option.value === candidate)) (next as any)[key] = candidate;
+  });
+  return next;
+}
+
+export const sameUnits = (a: UnitSettings, b: UnitSettings) =>
+  (Object.keys(UNIT_OPTIONS) as (keyof UnitSettings)[]).every(key => a[key] === b[key]);
+
+const labelOf = <K extends keyof UnitSettings>(key: K, value: UnitSettings[K]) =>
+  UNIT_OPTIONS[key].find(option => option.value === value)?.label ?? String(value);
+
+export const speedLabel = (units: UnitSettings) => labelOf('speed', units.speed);
+export const distanceLabel = (units: UnitSettings) => labelOf('distance', units.distance);
+export const temperatureLabel = (units: UnitSettings) => labelOf('temperature', units.temperature);
+export const pressureLabel = (units: UnitSettings) => labelOf('pressure', units.pressure);
+export const efficiencyLabel = (units: UnitSettings) => labelOf('efficiency', units.efficiency);
+export const elevationLabel = (units: UnitSettings) => units.distance === 'mi' ? 'ft' : 'm';
+
+export function toSpeed(kmh: number, units: UnitSettings): number {
+  return units.speed === 'mph' ? kmh * KM_TO_MI : kmh;
+}
+
+export function fromSpeed(value: number, units: UnitSettings): number {
+  return units.speed === 'mph' ? value / KM_TO_MI : value;
+}
+
+export function toDistance(km: number, units: UnitSettings): number {
+  return units.distance === 'mi' ? km * KM_TO_MI : km;
+}
+
+export function toElevation(m: number, units: UnitSettings): number {
+  return units.distance === 'mi' ? m * M_TO_FT : m;
+}
+
+export function toTemperature(celsius: number, units: UnitSettings): number {
+  return units.temperature === 'F' ? celsius * 9 / 5 + 32 : celsius;
+}
+
+export function fromTemperature(value: number, units: UnitSettings): number {
+  return units.temperature === 'F' ? (value - 32) * 5 / 9 : value;
+}
+
+export function toPressure(bar: number, unit: PressureUnit): number {
+  if (unit === 'psi') return bar * BAR_TO_PSI;
+  return unit === 'kPa' ? bar * 100 : bar;
+}
+
+export function fromPressure(value: number, unit: PressureUnit): number {
+  if (unit === 'psi') return value / BAR_TO_PSI;
+  return unit === 'kPa' ? value / 100 : value;
+}
+
+/** Decimals that make sense when showing or entering a pressure in `unit`. */
+export const pressureDecimals = (unit: PressureUnit) => unit === 'bar' ? 1 : 0;
+
+export function formatPressure(bar: number, unit: PressureUnit): string {
+  return toPressure(bar, unit).toFixed(pressureDecimals(unit));
+}
+
+/** Wh/km in the chosen efficiency unit; null when there is nothing to show (km/kWh of 0 Wh/km). */
+export function toEfficiency(whPerKm: number, units: UnitSettings): number | null {
+  if (units.efficiency === 'whmi') return whPerKm / KM_TO_MI;
+  if (units.efficiency === 'kmkwh') return whPerKm > 0 ? 1000 / whPerKm : null;
+  return whPerKm;
+}
+
+export function formatEfficiency(whPerKm: number | null, units: UnitSettings): string {
+  const value = whPerKm === null ? null : toEfficiency(whPerKm, units);
+  if (value === null) return '--';
+  return units.efficiency === 'kmkwh' ? value.toFixed(1) : String(Math.round(value));
+}
+
+const toDate = (value: Date | string | number) => value instanceof Date ? value : new Date(value);
+
+/** Clock time in the chosen 12/24-hour format; empty for missing or invalid input. */
+export function formatTime(value: Date | string | number, units: UnitSettings): string {
+  if (value === '' || value === null || value === undefined) return '';
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleTimeString([], { hour: units.clock === '12h' ? 'numeric' : '2-digit', minute: '2-digit', hour12: units.clock === '12h' });
+}
+
+/** Short date plus clock time, for recordings and replays. */
+export function formatDateTime(value: Date | string | number, units: UnitSettings): string {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString([], { month: 'short', day: 'numeric', hour: units.clock === '12h' ? 'numeric' : '2-digit', minute: '2-digit', hour12: units.clock === '12h' });
+}
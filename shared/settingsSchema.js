@@ -0,0 +1,96 @@
+// Checks for the settings the proxy stores and pushes to HUDs. Imported by
+// both the proxy (server/settings.js) and the HUD (services/settingsSync.ts),
+// so a HUD never gets a value the proxy wouldn't have saved.
+
+/** Everything that can be placed in a layout slot; components/HudWidget.tsx renders each. */
+export const WIDGET_IDS = /** @type {const} */ ([
+  'none', 'range', 'battery', 'gear', 'power', 'gearPower', 'outsideTemp', 'insideTemp',
+  'elevation', 'geofence', 'odometer', 'isLocked', 'compass', 'bearing', 'tripComputer',
+]);
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = (...values) => (value) => values.includes(value);
+const number = (min, max) => (value) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const integer = (min, max) => (value) => Number.isInteger(value) && value >= min && value <= max;
+const string = (value) => typeof value === 'string';
+const boolean = (value) => typeof value === 'boolean';
+const time = (value) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+const arrayOf = (check) => (value) => Array.isArray(value) && value.every(check);
+const either = (...checks) => (value) => checks.some(check => check(value));
+
+// Settings objects may be partial, since the HUD merges them over its own
+// values; items inside lists (alert rules, geofence limits) must be complete.
+const fields = (checks) => (value) =>
+  isObject(value) && Object.entries(value).every(([key, field]) => Object.hasOwn(checks, key) && checks[key](field));
+const record = (checks) => (value) =>
+  fields(checks)(value) && Object.keys(checks).every(key => Object.hasOwn(value, key));
+
+const widget = oneOf(...WIDGET_IDS);
+
+const alertRule = record({
+  id: string,
+  name: string,
+  message: string,
+  severity: oneOf('info', 'warning', 'critical'),
+  conditions: arrayOf(record({
+    fact: string,
+    op: oneOf('<', '<=', '>', '>=', '==', '!='),
+    value: either(number(-Infinity, Infinity), string, boolean),
+  })),
+  cooldownSeconds: number(0, Infinity),
+  chime: boolean,
+  enabled: boolean,
+});
+
+/** One check per setting; mirrors SyncedSettings in services/settingsSync.ts. */
+const SETTING_CHECKS = {
+  mode: oneOf('NORMAL', 'MIRROR', 'FLIPPED'),
+  units: either(oneOf('KM', 'MI'), fields({
+    speed: oneOf('kmh', 'mph'),
+    distance: oneOf('km', 'mi'),
+    temperature: oneOf('C', 'F'),
+    pressure: oneOf('bar', 'psi', 'kPa'),
+    efficiency: oneOf('whkm', 'whmi', 'kmkwh'),
+    clock: oneOf('24h', '12h'),
+  })),
+  carId: integer(1, Infinity),
+  theme: fields({
+    mode: oneOf('sun', 'schedule', 'day', 'night', 'contrast'),
+    dayStart: time,
+    nightStart: time,
+    dimming: number(0, 80),
+  }),
+  layout: fields({ left: widget, right: widget, info1: widget, info2: widget, info3: widget }),
+  tpms: fields({ lowThreshold: number(0, 10), maxDeviation: number(0, 10) }),
+  speedLimits: fields({
+    maxSpeed: number(0, 500),
+    tolerancePercent: number(0, 100),
+    hysteresis: number(0, 100),
+    geofenceLimits: arrayOf(record({ geofence: string, limit: number(1, 500) })),
+  }),
+  arrival: fields({ reservePercent: number(0, 100), capacityKwh: number(1, 500) }),
+  staleSeconds: integer(10, 86400),
+  summarySeconds: integer(0, 86400),
+  alerts: fields({ rules: arrayOf(alertRule), chimeVolume: number(0, 100) }),
+  speech: fields({
+    enabled: boolean,
+    voice: string,
+    lang: string,
+    volume: number(0, 100),
+    quietHours: boolean,
+    quietStart: time,
+    quietEnd: time,
+    events: fields({ destination: boolean, etaShift: boolean, arrivalLow: boolean, charging: boolean, alerts: boolean }),
+  }),
+  language: oneOf('', 'en', 'de', 'nl'),
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_CHECKS);
+
+/**
+ * Whether `value` is acceptable for the setting `key`.
+ * @param {string} key
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+export const isValidSetting = (key, value) => Object.hasOwn(SETTING_CHECKS, key) && SETTING_CHECKS[key](value);
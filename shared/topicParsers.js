@@ -0,0 +1,14 @@
+// Parser names a topic mapping can use. Imported by the proxy, which checks
+// the topic map file against it, and by the HUD (services/topicMap.ts), which
+// implements each one. Value parsers store one value in `field`; the others
+// fan a single topic out into several related fields.
+export const TOPIC_PARSERS = /** @type {const} */ ([
+  'float',
+  'int',
+  'bool',
+  'string',
+  'json',
+  'state',                // state + isCharging
+  'minutes_to_arrival',   // timeToArrival + estArrivalTime
+  'active_route',         // activeRoute + destination + arrival fields
+]);
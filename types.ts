@@ -1,3 +1,5 @@
+import { TOPIC_PARSERS } from './shared/topicParsers.js';
+
 export interface ActiveRoute {
   destination: string;
   energy_at_arrival: number;       // battery % when arriving
@@ -21,9 +23,11 @@ export interface TeslaData {
   isLocked: boolean;
   isCharging: boolean;
   heading: number;
+  latitude: number;        // degrees, 0/0 until the first fix
+  longitude: number;
   elevation: number;       // meters
   geofence: string;        // named geofence (e.g. "Home", "Work")
-  tpms_front_left: number;
+  tpms_front_left: number;     // bar
   tpms_front_right: number;
   tpms_rear_left: number;
   tpms_rear_right: number;
@@ -31,18 +35,72 @@ export interface TeslaData {
   chargerPower: number;         // kW
   timeToFullCharge: number;     // hours
   chargeLimitSoc: number;       // %
+  chargeEnergyAdded: number;    // kWh added in the current session
   // Navigation (legacy flat topics)
   destination: string;
   estArrivalTime: string;
   timeToArrival: number;        // minutes
   // Navigation (rich active_route JSON)
   activeRoute: ActiveRoute | null;
+  // Values of user-mapped topics that have no dedicated field above
+  custom: Record<string, unknown>;
+  // When each field was last received by the proxy (ms since epoch)
+  updatedAt: FieldTimestamps;
+}
+
+export type FieldTimestamps = Partial<Record<keyof TeslaData, number>>;
+
+export const INITIAL_DATA: TeslaData = {
+  speed: 0,
+  batteryLevel: 0,
+  power: 0,
+  gear: 'P',
+  range: 0,
+  outsideTemp: 0,
+  insideTemp: 0,
+  odometer: 0,
+  state: 'asleep',
+  isLocked: true,
+  isCharging: false,
+  heading: 0,
+  latitude: 0,
+  longitude: 0,
+  tpms_front_left: 0,
+  tpms_front_right: 0,
+  tpms_rear_left: 0,
+  tpms_rear_right: 0,
+  destination: '',
+  estArrivalTime: '',
+  timeToArrival: 0,
+  activeRoute: null,
+  elevation: 0,
+  geofence: '',
+  chargerPower: 0,
+  timeToFullCharge: 0,
+  chargeLimitSoc: 0,
+  chargeEnergyAdded: 0,
+  custom: {},
+  updatedAt: {}
+};
+
+export type TopicParser = typeof TOPIC_PARSERS[number];
+
+export interface TopicMapping {
+  topic: string;        // Suffix after `<prefix>/cars/<id>/`, e.g. "battery_level"
+  field: string;        // TeslaData key, anything else lands in `custom`
+  parser: TopicParser;
 }
 
 export interface MqttConfig {
   proxyUrl: string;    // The HUD Proxy WebSocket URL (e.g., ws://192.168.1.50:8080/ws)
   topicPrefix: string;
   carId: number;
+  topicMap?: TopicMapping[];  // Extra/overriding mappings served by the proxy
+}
+
+export interface CarInfo {
+  id: number;          // TeslaMate car id
+  name: string;        // display_name reported by TeslaMate
 }
 
 export enum HUDMode {
@@ -51,4 +109,18 @@ export enum HUDMode {
   FLIPPED = 'FLIPPED'
 }
 
-export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
\ No newline at end of file
+export type ConnectionState = 'connected' | 'connecting' | 'stale' | 'disconnected';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  attempt: number;               // consecutive failed attempts, 0 once linked
+  retryAt: number | null;        // when the next attempt fires (ms since epoch)
+  lastMessageAt: number | null;  // last message of any kind from the proxy
+}
+
+export const INITIAL_CONNECTION_STATUS: ConnectionStatus = {
+  state: 'disconnected',
+  attempt: 0,
+  retryAt: null,
+  lastMessageAt: null,
+};